@@ -1,10 +1,17 @@
 import React from "react";
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { LoadingDots } from "@/components/ui/loading-dots";
+import { useAuth } from "@/hooks/use-auth";
 import Home from "@/pages/home";
+import Login from "@/pages/login";
+import Settings from "@/pages/settings";
+import Dashboard from "@/pages/dashboard";
+import Personas from "@/pages/personas";
+import Admin from "@/pages/admin";
 import NotFound from "@/pages/not-found";
 
 // Error Boundary Component
@@ -47,10 +54,34 @@ class ErrorBoundary extends React.Component<
   }
 }
 
+// Sends visitors without a session to the login page
+function ProtectedRoute({ path, component: Component }: { path: string; component: React.ComponentType }) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen flex items-center justify-center bg-background">
+          <LoadingDots />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/login" />
+      )}
+    </Route>
+  );
+}
+
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/settings" component={Settings} />
+      <ProtectedRoute path="/dashboard" component={Dashboard} />
+      <ProtectedRoute path="/personas" component={Personas} />
+      <ProtectedRoute path="/admin" component={Admin} />
+      <Route path="/login" component={Login} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { GenerationParams } from "@shared/types";
+
+// Shown on the sliders while a value is unset; the server applies its own default
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_TOP_P = 1;
+
+interface AdvancedSettingsProps {
+  value: GenerationParams;
+  onChange: (value: GenerationParams) => void;
+  disabled?: boolean;
+}
+
+function parseOptionalInt(text: string): number | undefined {
+  const parsed = parseInt(text, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Per-request sampling settings. Fields stay unset until touched, so the
+// persona's settings and the server defaults apply otherwise.
+export function AdvancedSettings({ value, onChange, disabled }: AdvancedSettingsProps) {
+  const [stopText, setStopText] = useState(value.stop?.join(", ") ?? "");
+  const changed = Object.values(value).some((field) => field !== undefined);
+
+  const update = (patch: Partial<GenerationParams>) => onChange({ ...value, ...patch });
+
+  const handleStopChange = (text: string) => {
+    setStopText(text);
+    const stop = text.split(",").map((sequence) => sequence.trim()).filter(Boolean).slice(0, 4);
+    update({ stop: stop.length > 0 ? stop : undefined });
+  };
+
+  const handleReset = () => {
+    setStopText("");
+    onChange({});
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          className="rounded-full hover-scale gap-2"
+          data-testid="button-advanced-settings"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          Advanced
+          {changed && <span className="h-2 w-2 rounded-full bg-primary" aria-label="Custom settings" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-5" align="center">
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Temperature</Label>
+            <span className="text-xs text-muted-foreground" data-testid="text-temperature">
+              {value.temperature?.toFixed(2) ?? "Default"}
+            </span>
+          </div>
+          <Slider
+            min={0}
+            max={2}
+            step={0.05}
+            value={[value.temperature ?? DEFAULT_TEMPERATURE]}
+            onValueChange={([temperature]) => update({ temperature })}
+            data-testid="slider-temperature"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Top P</Label>
+            <span className="text-xs text-muted-foreground" data-testid="text-top-p">
+              {value.topP?.toFixed(2) ?? "Default"}
+            </span>
+          </div>
+          <Slider
+            min={0.05}
+            max={1}
+            step={0.05}
+            value={[value.topP ?? DEFAULT_TOP_P]}
+            onValueChange={([topP]) => update({ topP })}
+            data-testid="slider-top-p"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="max-tokens">Max tokens</Label>
+            <Input
+              id="max-tokens"
+              type="number"
+              min={1}
+              placeholder="Model limit"
+              value={value.maxTokens ?? ""}
+              onChange={(e) => update({ maxTokens: parseOptionalInt(e.target.value) })}
+              data-testid="input-max-tokens"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="seed">Seed</Label>
+            <Input
+              id="seed"
+              type="number"
+              placeholder="Random"
+              value={value.seed ?? ""}
+              onChange={(e) => update({ seed: parseOptionalInt(e.target.value) })}
+              data-testid="input-seed"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="stop">Stop sequences</Label>
+          <Input
+            id="stop"
+            placeholder="Comma separated, up to 4"
+            value={stopText}
+            onChange={(e) => handleStopChange(e.target.value)}
+            data-testid="input-stop"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="json-mode">JSON response</Label>
+          <Switch
+            id="json-mode"
+            checked={value.responseFormat === "json"}
+            onCheckedChange={(checked) => update({ responseFormat: checked ? "json" : undefined })}
+            data-testid="switch-json-mode"
+          />
+        </div>
+
+        <Button variant="ghost" size="sm" className="w-full" onClick={handleReset} disabled={!changed} data-testid="button-reset-advanced">
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { MoreHorizontal, Pencil, Pin, PinOff, Plus, Trash2 } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, describeError, queryClient } from "@/lib/queryClient";
+import type { Conversation, ConversationSummary, UpdateConversation } from "@shared/schema";
+
+export const CONVERSATIONS_QUERY_KEY = "/api/conversations";
+
+interface ConversationSidebarProps {
+  activeId?: string;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  // Called after the open conversation has been deleted
+  onDeleted: (id: string) => void;
+}
+
+// Search result text with the matched term highlighted
+function SearchSnippet({ snippet, match }: { snippet: string; match?: ConversationSummary["snippetMatch"] }) {
+  if (!match) return <>{snippet}</>;
+  const end = match.start + match.length;
+  return (
+    <>
+      {snippet.slice(0, match.start)}
+      <mark className="rounded-sm bg-yellow-200 px-0.5 text-foreground">{snippet.slice(match.start, end)}</mark>
+      {snippet.slice(end)}
+    </>
+  );
+}
+
+export function ConversationSidebar({ activeId, onSelect, onNew, onDeleted }: ConversationSidebarProps) {
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<ConversationSummary | null>(null);
+  const { toast } = useToast();
+
+  // Wait for a pause in typing before hitting the search endpoint
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: conversations, isLoading } = useQuery<ConversationSummary[]>({
+    queryKey: [CONVERSATIONS_QUERY_KEY, debouncedSearch],
+    queryFn: async () => {
+      const query = debouncedSearch ? `?q=${encodeURIComponent(debouncedSearch)}` : "";
+      const res = await apiRequest("GET", `${CONVERSATIONS_QUERY_KEY}${query}`);
+      return res.json();
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, update }: { id: string; update: UpdateConversation }): Promise<Conversation> => {
+      const res = await apiRequest("PATCH", `/api/conversations/${id}`, update);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [CONVERSATIONS_QUERY_KEY] }),
+    onError: (error) => {
+      toast({ title: "Could not update conversation", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/conversations/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: [CONVERSATIONS_QUERY_KEY] });
+      onDeleted(id);
+    },
+    onError: (error) => {
+      toast({ title: "Could not delete conversation", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title ?? "");
+  };
+
+  const finishRename = () => {
+    const title = draftTitle.trim();
+    const current = conversations?.find((conversation) => conversation.id === editingId);
+    if (editingId && title && title !== current?.title) {
+      updateMutation.mutate({ id: editingId, update: { title } });
+    }
+    setEditingId(null);
+  };
+
+  const pinned = conversations?.filter((conversation) => conversation.pinned) ?? [];
+  const recent = conversations?.filter((conversation) => !conversation.pinned) ?? [];
+
+  const renderItem = (conversation: ConversationSummary) => (
+    <SidebarMenuItem key={conversation.id}>
+      {editingId === conversation.id ? (
+        <SidebarInput
+          autoFocus
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onBlur={finishRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") finishRename();
+            if (e.key === "Escape") setEditingId(null);
+          }}
+          data-testid={`input-rename-${conversation.id}`}
+        />
+      ) : (
+        <SidebarMenuButton
+          isActive={conversation.id === activeId}
+          onClick={() => onSelect(conversation.id)}
+          className="h-auto flex-col items-start gap-0.5 py-2"
+          data-testid={`conversation-${conversation.id}`}
+        >
+          <span className="w-full truncate">{conversation.title || "Untitled conversation"}</span>
+          {conversation.snippet && (
+            <span className="w-full truncate text-xs text-muted-foreground">
+              <SearchSnippet snippet={conversation.snippet} match={conversation.snippetMatch} />
+            </span>
+          )}
+        </SidebarMenuButton>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover data-testid={`button-conversation-menu-${conversation.id}`}>
+            <MoreHorizontal />
+            <span className="sr-only">More</span>
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          <DropdownMenuItem onClick={() => startRename(conversation)}>
+            <Pencil className="mr-2 h-4 w-4" /> Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => updateMutation.mutate({ id: conversation.id, update: { pinned: !conversation.pinned } })}
+          >
+            {conversation.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+            {conversation.pinned ? "Unpin" : "Pin"}
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-red-600" onClick={() => setPendingDelete(conversation)}>
+            <Trash2 className="mr-2 h-4 w-4" /> Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <Button variant="outline" className="w-full justify-start gap-2" onClick={onNew} data-testid="button-sidebar-new">
+          <Plus className="h-4 w-4" /> New conversation
+        </Button>
+        <SidebarInput
+          placeholder="Search conversations..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          data-testid="input-search-conversations"
+        />
+      </SidebarHeader>
+      <SidebarContent>
+        {isLoading ? (
+          <SidebarGroup>
+            <SidebarMenu>
+              {Array.from({ length: 4 }).map((_, index) => (
+                <SidebarMenuItem key={index}>
+                  <SidebarMenuSkeleton />
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroup>
+        ) : !conversations?.length ? (
+          <p className="px-4 py-6 text-center text-xs text-muted-foreground">
+            {debouncedSearch ? "No conversations match" : "No conversations yet"}
+          </p>
+        ) : (
+          <>
+            {pinned.length > 0 && (
+              <SidebarGroup>
+                <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  <SidebarMenu>{pinned.map(renderItem)}</SidebarMenu>
+                </SidebarGroupContent>
+              </SidebarGroup>
+            )}
+            {recent.length > 0 && (
+              <SidebarGroup>
+                <SidebarGroupLabel>{debouncedSearch ? "Results" : "Recent"}</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  <SidebarMenu>{recent.map(renderItem)}</SidebarMenu>
+                </SidebarGroupContent>
+              </SidebarGroup>
+            )}
+          </>
+        )}
+      </SidebarContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title || "Untitled conversation"}" and all of its messages will be removed for good.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+}
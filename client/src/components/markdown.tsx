@@ -0,0 +1,78 @@
+import { memo, useRef, useState } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { Check, Copy } from "lucide-react";
+import "katex/dist/katex.min.css";
+import { cn } from "@/lib/utils";
+
+// Raw HTML in model output is never rendered: react-markdown drops it, and the
+// sanitizer strips anything unexpected before KaTeX and highlighting add their
+// own markup. The only extra allowance is the class remark-math puts on math.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code ?? []),
+      ["className", /^language-./, "math-inline", "math-display"],
+    ],
+  },
+};
+
+function CodeBlock({ children, ...props }: React.ComponentProps<"pre">) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(preRef.current?.innerText ?? "");
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="group relative">
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute right-2 top-2 rounded-md border border-border bg-background/80 p-1.5 text-muted-foreground opacity-0 transition-opacity hover:text-foreground group-hover:opacity-100 focus:opacity-100"
+        aria-label={copied ? "Copied" : "Copy code"}
+        data-testid="button-copy-code"
+      >
+        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+      </button>
+      <pre ref={preRef} {...props}>
+        {children}
+      </pre>
+    </div>
+  );
+}
+
+const components: Components = {
+  pre: ({ node: _node, ...props }) => <CodeBlock {...props} />,
+  a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+  table: ({ node: _node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+// Renders model answers: GitHub-flavoured markdown (tables, task lists,
+// strikethrough), highlighted code blocks with a copy button, and $…$ / $$…$$ math
+export const Markdown = memo(function Markdown({ content, className }: { content: string; className?: string }) {
+  return (
+    <div className={cn("markdown prose prose-neutral max-w-none dark:prose-invert", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeKatex, [rehypeHighlight, { detect: true }]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+});
@@ -0,0 +1,49 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+export type Credentials = { username: string; password: string };
+
+const ME_QUERY_KEY = ["/api/auth/me"];
+
+// The signed-in user, or null when the session is missing or expired
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return res.json();
+    },
+    onSuccess: (user) => queryClient.setQueryData(ME_QUERY_KEY, user),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/auth/register", credentials);
+      return res.json();
+    },
+    onSuccess: (user) => queryClient.setQueryData(ME_QUERY_KEY, user),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== ME_QUERY_KEY[0] });
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
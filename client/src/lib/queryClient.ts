@@ -23,6 +23,17 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors look like `401: {"error":"..."}`; show just the message
+export function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return "Something went wrong";
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
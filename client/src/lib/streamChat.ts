@@ -0,0 +1,66 @@
+import type { ChatRequest, ChatResponse } from "@shared/types";
+
+export interface StreamChatHandlers {
+  onStart?: (meta: Pick<ChatResponse, "id" | "conversationId" | "model" | "routing" | "failover" | "cached">) => void;
+  onToken?: (token: string) => void;
+}
+
+// Posts to the SSE chat endpoint and resolves with the final response once the
+// server sends its "done" event. Abort the signal to cancel mid-stream.
+export async function streamChat(
+  request: ChatRequest,
+  handlers: StreamChatHandlers,
+  signal?: AbortSignal,
+): Promise<ChatResponse> {
+  const res = await fetch("/api/chat/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const raw of events) {
+      let event = "message";
+      let data = "";
+      for (const line of raw.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      switch (event) {
+        case "start":
+          handlers.onStart?.(payload);
+          break;
+        case "token":
+          handlers.onToken?.(payload.content);
+          break;
+        case "done":
+          return payload as ChatResponse;
+        case "error":
+          throw new Error(payload.error || "Stream failed");
+      }
+    }
+  }
+
+  throw new Error("Stream ended before the response completed");
+}
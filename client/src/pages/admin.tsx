@@ -0,0 +1,447 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LoadingDots } from "@/components/ui/loading-dots";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, describeError, queryClient } from "@/lib/queryClient";
+import { USER_ROLES, type ModelSetting, type PublicUser, type UpsertModelSetting, type UserRole } from "@shared/schema";
+import type { AdminModel, AdminModelsResponse, ModelStatus } from "@shared/types";
+
+const MODELS_QUERY_KEY = ["/api/admin/models"];
+const USERS_QUERY_KEY = ["/api/admin/users"];
+
+const STATUS_BADGES: Record<ModelStatus, { label: string; variant: "secondary" | "outline" | "destructive" }> = {
+  available: { label: "Available", variant: "secondary" },
+  disabled: { label: "Disabled", variant: "outline" },
+  "over-price": { label: "Over price cap", variant: "destructive" },
+  unlisted: { label: "Not listed by provider", variant: "destructive" },
+};
+
+interface ModelForm {
+  alias: string;
+  modelId: string;
+  label: string;
+  enabled: boolean;
+  maxTokens: string;
+  maxPromptPrice: string;
+  maxCompletionPrice: string;
+  allowedRoles: UserRole[];
+  allowedUserIds: string[];
+}
+
+const EMPTY_FORM: ModelForm = {
+  alias: "",
+  modelId: "",
+  label: "",
+  enabled: true,
+  maxTokens: "",
+  maxPromptPrice: "",
+  maxCompletionPrice: "",
+  allowedRoles: [],
+  allowedUserIds: [],
+};
+
+// Starts from the saved settings, or from what the server defaults show
+function toForm(model: AdminModel): ModelForm {
+  const setting: ModelSetting | null = model.setting;
+  return {
+    alias: model.alias,
+    modelId: model.id,
+    label: setting ? setting.label ?? "" : model.label,
+    enabled: setting?.enabled ?? true,
+    maxTokens: setting?.maxTokens?.toString() ?? "",
+    maxPromptPrice: setting?.maxPromptPrice?.toString() ?? "",
+    maxCompletionPrice: setting?.maxCompletionPrice?.toString() ?? "",
+    allowedRoles: setting?.allowedRoles ?? [],
+    allowedUserIds: setting?.allowedUserIds ?? [],
+  };
+}
+
+// Blank fields are sent as null: no cap, and no restriction
+function toBody(form: ModelForm): UpsertModelSetting {
+  const optionalNumber = (text: string) => (text.trim() ? Number(text) : null);
+  return {
+    modelId: form.modelId.trim(),
+    label: form.label.trim() || null,
+    enabled: form.enabled,
+    maxTokens: optionalNumber(form.maxTokens),
+    maxPromptPrice: optionalNumber(form.maxPromptPrice),
+    maxCompletionPrice: optionalNumber(form.maxCompletionPrice),
+    allowedRoles: form.allowedRoles.length > 0 ? form.allowedRoles : null,
+    allowedUserIds: form.allowedUserIds.length > 0 ? form.allowedUserIds : null,
+  };
+}
+
+function formatPrice(model: AdminModel) {
+  return model.pricing ? `$${model.pricing.prompt.toFixed(2)} / $${model.pricing.completion.toFixed(2)}` : "Unknown";
+}
+
+function describeAccess(setting: ModelSetting | null, users: PublicUser[] | undefined) {
+  if (!setting || (!setting.allowedRoles && !setting.allowedUserIds)) return "Everyone";
+  const names = (setting.allowedUserIds ?? []).map(
+    (id) => users?.find((user) => user.id === id)?.username ?? id,
+  );
+  return [...(setting.allowedRoles ?? []).map((role) => `${role}s`), ...names].join(", ");
+}
+
+// Which models users are offered and on what terms, and who is an admin
+export default function Admin() {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ModelForm>(EMPTY_FORM);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: catalog, isLoading, error } = useQuery<AdminModelsResponse>({ queryKey: MODELS_QUERY_KEY });
+  const { data: users } = useQuery<PublicUser[]>({ queryKey: USERS_QUERY_KEY });
+
+  const resetForm = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  // The picker on the chat page follows these settings
+  const refreshModels = () => {
+    queryClient.invalidateQueries({ queryKey: MODELS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<ModelSetting> => {
+      const res = await apiRequest("PUT", `/api/admin/models/${encodeURIComponent(form.alias.trim())}`, toBody(form));
+      return res.json();
+    },
+    onSuccess: (setting) => {
+      refreshModels();
+      toast({ title: "Model saved", description: `${setting.alias} → ${setting.modelId}` });
+      resetForm();
+    },
+    onError: (error) => {
+      toast({ title: "Could not save model", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (alias: string) => {
+      await apiRequest("DELETE", `/api/admin/models/${encodeURIComponent(alias)}`);
+      return alias;
+    },
+    onSuccess: (alias) => {
+      refreshModels();
+      toast({ title: "Settings removed", description: alias });
+      if (alias === editing) resetForm();
+    },
+    onError: (error) => {
+      toast({ title: "Could not remove settings", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }): Promise<PublicUser> => {
+      const res = await apiRequest("PATCH", `/api/admin/users/${id}`, { role });
+      return res.json();
+    },
+    onSuccess: (changed) => {
+      queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY });
+      toast({ title: "Role changed", description: `${changed.username} is now ${changed.role === "admin" ? "an admin" : "a user"}` });
+    },
+    onError: (error) => {
+      toast({ title: "Could not change role", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const update = <K extends keyof ModelForm>(field: K, value: ModelForm[K]) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const toggle = <T extends string>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter((entry) => entry !== value);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground" data-testid="text-admin-error">{describeError(error)}</p>
+        <Link href="/">
+          <Button variant="ghost" size="sm">← Back to chat</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-light text-foreground">Admin</h1>
+          <Link href="/">
+            <Button variant="ghost" size="sm" data-testid="link-home">← Back to chat</Button>
+          </Link>
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardContent className="p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-light">Models</h2>
+              <p className="text-sm text-muted-foreground">
+                Prices are USD per million tokens. A model is withheld while it is disabled, priced above its cap, or no
+                longer listed by the provider.
+              </p>
+            </div>
+            {isLoading ? (
+              <div className="flex justify-center py-6"><LoadingDots /></div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Alias</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Price in / out</TableHead>
+                    <TableHead>Max tokens</TableHead>
+                    <TableHead>Access</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {catalog?.models.map((model) => (
+                    <TableRow key={model.alias} data-testid={`row-model-${model.alias}`}>
+                      <TableCell>
+                        <span className="font-medium">{model.label}</span>
+                        <span className="block font-mono text-xs text-muted-foreground">{model.alias}</span>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{model.id}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[model.status].variant}>{STATUS_BADGES[model.status].label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">{formatPrice(model)}</TableCell>
+                      <TableCell className="text-xs">{model.maxOutputTokens?.toLocaleString() ?? "Unknown"}</TableCell>
+                      <TableCell className="text-xs">{describeAccess(model.setting, users)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditing(model.alias);
+                            setForm(toForm(model));
+                          }}
+                          data-testid={`button-edit-${model.alias}`}
+                        >
+                          Edit
+                        </Button>
+                        {model.setting && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => resetMutation.mutate(model.alias)}
+                            disabled={resetMutation.isPending}
+                            data-testid={`button-reset-${model.alias}`}
+                          >
+                            Reset
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-0">
+          <CardContent className="p-6">
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveMutation.mutate();
+              }}
+            >
+              <h2 className="text-xl font-light">{editing ? `Edit ${editing}` : "Add a model"}</h2>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="model-alias">Alias</Label>
+                  <Input
+                    id="model-alias"
+                    placeholder="e.g. mistral"
+                    value={form.alias}
+                    disabled={editing !== null}
+                    onChange={(e) => update("alias", e.target.value.toLowerCase())}
+                    data-testid="input-model-alias"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="model-id">Provider model</Label>
+                  <Input
+                    id="model-id"
+                    list="provider-models"
+                    placeholder="e.g. mistralai/mistral-large"
+                    value={form.modelId}
+                    onChange={(e) => update("modelId", e.target.value)}
+                    data-testid="input-model-id"
+                  />
+                  <datalist id="provider-models">
+                    {catalog?.providerModels.map((model) => (
+                      <option key={model.id} value={model.id}>{model.name}</option>
+                    ))}
+                  </datalist>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="model-label">Label</Label>
+                  <Input
+                    id="model-label"
+                    placeholder="Provider's name"
+                    value={form.label}
+                    onChange={(e) => update("label", e.target.value)}
+                    data-testid="input-model-label"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="model-max-tokens">Max tokens</Label>
+                  <Input
+                    id="model-max-tokens"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder="Model limit"
+                    value={form.maxTokens}
+                    onChange={(e) => update("maxTokens", e.target.value)}
+                    data-testid="input-model-max-tokens"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="model-prompt-price">Prompt price cap</Label>
+                  <Input
+                    id="model-prompt-price"
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    placeholder="No cap"
+                    value={form.maxPromptPrice}
+                    onChange={(e) => update("maxPromptPrice", e.target.value)}
+                    data-testid="input-model-prompt-price"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="model-completion-price">Completion price cap</Label>
+                  <Input
+                    id="model-completion-price"
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    placeholder="No cap"
+                    value={form.maxCompletionPrice}
+                    onChange={(e) => update("maxCompletionPrice", e.target.value)}
+                    data-testid="input-model-completion-price"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Restrict to</Label>
+                <p className="text-xs text-muted-foreground">Leave everything unticked to offer the model to everyone.</p>
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                  {USER_ROLES.map((role) => (
+                    <div key={role} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`role-${role}`}
+                        checked={form.allowedRoles.includes(role)}
+                        onCheckedChange={(checked) => update("allowedRoles", toggle(form.allowedRoles, role, checked === true))}
+                        data-testid={`checkbox-role-${role}`}
+                      />
+                      <Label htmlFor={`role-${role}`} className="font-normal">All {role}s</Label>
+                    </div>
+                  ))}
+                  {users?.map((entry) => (
+                    <div key={entry.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`user-${entry.id}`}
+                        checked={form.allowedUserIds.includes(entry.id)}
+                        onCheckedChange={(checked) => update("allowedUserIds", toggle(form.allowedUserIds, entry.id, checked === true))}
+                        data-testid={`checkbox-user-${entry.id}`}
+                      />
+                      <Label htmlFor={`user-${entry.id}`} className="font-normal">{entry.username}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="model-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(checked) => update("enabled", checked)}
+                  data-testid="switch-model-enabled"
+                />
+                <Label htmlFor="model-enabled">Enabled</Label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  type="submit"
+                  disabled={saveMutation.isPending || !form.alias.trim() || !form.modelId.trim()}
+                  className="btn-primary rounded-full"
+                  data-testid="button-save-model"
+                >
+                  {saveMutation.isPending ? <LoadingDots /> : editing ? "Save changes" : "Add model"}
+                </Button>
+                {editing && (
+                  <Button type="button" variant="ghost" onClick={resetForm} data-testid="button-cancel-edit">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-0">
+          <CardContent className="p-6 space-y-4">
+            <h2 className="text-xl font-light">Users</h2>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users?.map((entry) => (
+                  <TableRow key={entry.id} data-testid={`row-user-${entry.id}`}>
+                    <TableCell>{entry.username}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={entry.role}
+                        onValueChange={(role) => roleMutation.mutate({ id: entry.id, role: role as UserRole })}
+                        // Admins cannot demote themselves, so someone always keeps access
+                        disabled={entry.id === user?.id || roleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-32" data-testid={`select-role-${entry.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>{role}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { LoadingDots } from "@/components/ui/loading-dots";
+import type { MetricsReport, ModelCallMetrics } from "@shared/types";
+
+const RANGES = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+const AUTOMATION_TYPES = ["email", "task", "slack"] as const;
+
+function isoDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// One colour per series, cycling through the theme's five chart colours
+function seriesConfig(keys: readonly string[], labels: Record<string, string> = {}): ChartConfig {
+  return Object.fromEntries(
+    keys.map((key, index) => [key, { label: labels[key] ?? key.toUpperCase(), color: `var(--chart-${(index % 5) + 1})` }]),
+  );
+}
+
+// Turns per-day, per-model rows into one row per day with a column per model
+function pivotByDay(rows: ModelCallMetrics[], value: (row: ModelCallMetrics) => number) {
+  const days = new Map<string, Record<string, string | number>>();
+  for (const row of rows) {
+    const day = row.day ?? "";
+    const entry = days.get(day) ?? { day };
+    entry[row.model] = value(row);
+    days.set(day, entry);
+  }
+  return Array.from(days.values());
+}
+
+function ChartCard({ title, description, children }: { title: string; description: string; children: React.ReactNode }) {
+  return (
+    <Card className="shadow-lg border-0">
+      <CardContent className="p-6">
+        <h2 className="text-lg font-medium text-foreground">{title}</h2>
+        <p className="text-xs text-muted-foreground mb-4">{description}</p>
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Dashboard() {
+  const [days, setDays] = useState(30);
+  const to = isoDay(new Date());
+  const from = isoDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+
+  const { data: metrics, isLoading, error } = useQuery<MetricsReport>({
+    queryKey: [`/api/metrics?from=${from}&to=${to}`],
+    staleTime: 60000,
+  });
+
+  const models = Array.from(new Set(metrics?.models.map((row) => row.model) ?? []));
+  const modelConfig = seriesConfig(models);
+
+  const requestsConfig = seriesConfig(["succeeded", "errors"], { succeeded: "Succeeded", errors: "Errors" });
+  const requestsData = (metrics?.models ?? []).map((row) => ({
+    model: row.model.toUpperCase(),
+    succeeded: row.requests - row.errors,
+    errors: row.errors,
+  }));
+
+  const latencyConfig = seriesConfig(["p50", "p95", "p99"]);
+  const latencyData = (metrics?.models ?? []).map((row) => ({
+    model: row.model.toUpperCase(),
+    p50: row.p50LatencyMs ?? 0,
+    p95: row.p95LatencyMs ?? 0,
+    p99: row.p99LatencyMs ?? 0,
+  }));
+
+  // A model used only for intent extraction that day has no requests
+  const errorRateData = pivotByDay(metrics?.daily ?? [], (row) =>
+    row.requests ? Math.round((row.errors / row.requests) * 1000) / 10 : 0,
+  );
+  const spendData = pivotByDay(metrics?.daily ?? [], (row) => Math.round(row.costUsd * 10000) / 10000);
+
+  const automationConfig = seriesConfig(AUTOMATION_TYPES);
+  const automationDays = new Map<string, Record<string, string | number>>();
+  for (const row of metrics?.automations ?? []) {
+    const entry = automationDays.get(row.day) ?? { day: row.day, email: 0, task: 0, slack: 0 };
+    entry[row.type] = (entry[row.type] as number) + row.count;
+    automationDays.set(row.day, entry);
+  }
+  const automationData = Array.from(automationDays.values());
+
+  const totalCost = (metrics?.models ?? []).reduce((sum, row) => sum + row.costUsd, 0);
+  const totalRequests = (metrics?.models ?? []).reduce((sum, row) => sum + row.requests, 0);
+
+  return (
+    <div className="min-h-screen bg-background px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-light text-foreground">Model dashboard</h1>
+            {metrics && (
+              <p className="text-sm text-muted-foreground" data-testid="text-dashboard-summary">
+                {totalRequests.toLocaleString()} model calls • ${totalCost.toFixed(2)} spent • {metrics.from} to {metrics.to}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-40" data-testid="select-range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map((range) => (
+                  <SelectItem key={range.days} value={String(range.days)}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Link href="/">
+              <Button variant="ghost" size="sm" data-testid="link-home">← Back to chat</Button>
+            </Link>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-20"><LoadingDots /></div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-20">Failed to load metrics</p>
+        ) : !metrics || totalRequests === 0 ? (
+          <p className="text-center text-muted-foreground py-20">No model calls in this period yet</p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <ChartCard title="Requests per model" description="Successful and failed calls">
+              <ChartContainer config={requestsConfig} className="min-h-[220px] w-full" data-testid="chart-requests">
+                <BarChart data={requestsData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="model" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="succeeded" stackId="requests" fill="var(--color-succeeded)" />
+                  <Bar dataKey="errors" stackId="requests" fill="var(--color-errors)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="Latency percentiles" description="Milliseconds per successful call">
+              <ChartContainer config={latencyConfig} className="min-h-[220px] w-full" data-testid="chart-latency">
+                <BarChart data={latencyData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="model" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={50} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="p50" fill="var(--color-p50)" radius={4} />
+                  <Bar dataKey="p95" fill="var(--color-p95)" radius={4} />
+                  <Bar dataKey="p99" fill="var(--color-p99)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="Error rate" description="Share of calls that failed, % per day">
+              <ChartContainer config={modelConfig} className="min-h-[220px] w-full" data-testid="chart-error-rate">
+                <LineChart data={errorRateData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickLine={false} axisLine={false} />
+                  <YAxis unit="%" tickLine={false} axisLine={false} width={45} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {models.map((model) => (
+                    <Line key={model} dataKey={model} stroke={`var(--color-${model})`} strokeWidth={2} dot={false} connectNulls />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="Token spend" description="USD per day">
+              <ChartContainer config={modelConfig} className="min-h-[220px] w-full" data-testid="chart-spend">
+                <BarChart data={spendData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={55} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {models.map((model) => (
+                    <Bar key={model} dataKey={model} stackId="spend" fill={`var(--color-${model})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="Automations" description="Actions proposed per day, by type">
+              <ChartContainer config={automationConfig} className="min-h-[220px] w-full" data-testid="chart-automations">
+                <BarChart data={automationData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {AUTOMATION_TYPES.map((type) => (
+                    <Bar key={type} dataKey={type} stackId="automations" fill={`var(--color-${type})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,90 @@
-import { useState } from "react";
+import { Fragment, useEffect, useRef, useState } from "react";
+import { Link } from "wouter";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { LoadingDots } from "@/components/ui/loading-dots";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { ConversationSidebar, CONVERSATIONS_QUERY_KEY } from "@/components/conversation-sidebar";
+import { Markdown } from "@/components/markdown";
+import { AdvancedSettings } from "@/components/advanced-settings";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import type { ChatRequest, ChatResponse } from "@shared/types";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, describeError, queryClient } from "@/lib/queryClient";
+import { streamChat } from "@/lib/streamChat";
+import type {
+  AutomationAction,
+  AutomationStatus,
+  ChatRequest,
+  ChatResponse,
+  FailoverAttempt,
+  GenerationParams,
+  HealthReport,
+  CatalogModel,
+  ModelCatalogResponse,
+  ModelHealth,
+  QuotaStatus
+} from "@shared/types";
+import type { Conversation, Message, Persona } from "@shared/schema";
+
+// Aliases without an icon of their own get the generic one
+const MODEL_ICONS: Record<string, string> = { gpt: '🧠', claude: '🤖', llama: '🦙' };
+const DEFAULT_MODEL_ICON = '✨';
+
+// Hover text for a model option: context window and list price
+function describeCatalogModel(model: CatalogModel): string {
+  const parts = [model.name];
+  if (model.contextLength !== null) {
+    parts.push(`${Math.round(model.contextLength / 1000)}k context`);
+  }
+  if (model.pricing) {
+    parts.push(`$${model.pricing.prompt.toFixed(2)} in / $${model.pricing.completion.toFixed(2)} out per M tokens`);
+  }
+  return parts.join(' • ');
+}
+
+const HEALTH_STYLES: Record<ModelHealth['status'], { dot: string; label: string }> = {
+  online: { dot: 'bg-green-500', label: 'Online' },
+  degraded: { dot: 'bg-amber-500', label: 'Degraded' },
+  offline: { dot: 'bg-red-500', label: 'Offline' },
+};
+
+// Hover text for a footer indicator: recent success rate, latency and last error
+function describeModelHealth(health: ModelHealth): string {
+  const parts = [`Circuit ${health.circuit}`];
+  if (health.successRate !== null) {
+    parts.push(`${Math.round(health.successRate * 100)}% of last ${health.samples} calls succeeded`);
+  }
+  if (health.averageLatencyMs !== null) {
+    parts.push(`${(health.averageLatencyMs / 1000).toFixed(1)}s average`);
+  }
+  if (health.lastError) {
+    parts.push(`Last error: ${health.lastError}`);
+  }
+  return parts.join(' • ');
+}
+
+// Select has no empty value, so "none" stands for "no persona"
+const NO_PERSONA = "none";
 
 export default function Home() {
   const [message, setMessage] = useState("");
   const [selectedModel, setSelectedModel] = useState<string>("auto");
+  const [personaId, setPersonaId] = useState<string>(NO_PERSONA);
+  const [generation, setGeneration] = useState<GenerationParams>({});
   const [responses, setResponses] = useState<ChatResponse[]>([]);
+  const [conversationId, setConversationId] = useState<string | undefined>();
+  const [streamingResponse, setStreamingResponse] = useState<ChatResponse | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
 
-  // Health check query to verify API connectivity
-  const { data: healthCheck } = useQuery({
+  // Health check query: API connectivity plus each model's circuit state
+  const { data: healthCheck } = useQuery<HealthReport>({
     queryKey: ['/api/health'],
     refetchInterval: 30000,
     retry: false,
@@ -24,23 +92,64 @@ export default function Home() {
     staleTime: 30000
   });
 
+  const { data: quota } = useQuery<QuotaStatus>({ queryKey: ['/api/quota'] });
+  const { data: personas } = useQuery<Persona[]>({ queryKey: ['/api/personas'] });
+  const { data: catalog } = useQuery<ModelCatalogResponse>({ queryKey: ['/api/models'] });
+  const catalogModels = catalog?.models ?? [];
+  // Compare and fusion need two models; an admin may since have left the user fewer
+  const canCompare = catalogModels.length >= 2;
+  const isMultiModel = selectedModel === 'compare' || selectedModel === 'fusion';
+  useEffect(() => {
+    if (catalog && !canCompare && isMultiModel) {
+      setSelectedModel('auto');
+    }
+  }, [catalog, canCompare, isMultiModel]);
+  // After each answer: the quota has moved, the sidebar order or titles may have
+  // changed, and model health reflects the calls just made
+  const refreshAfterChat = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/quota'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/health'] });
+    queryClient.invalidateQueries({ queryKey: [CONVERSATIONS_QUERY_KEY] });
+  };
+
   const chatMutation = useMutation({
     mutationFn: async (request: ChatRequest): Promise<ChatResponse> => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      let partial: ChatResponse | null = null;
+
       try {
-        const response = await apiRequest('POST', '/api/chat', request);
-        const data = await response.json();
-        if (!data || typeof data !== 'object') {
-          throw new Error('Invalid response format');
-        }
-        return data;
+        return await streamChat(request, {
+          onStart: (meta) => {
+            partial = { ...meta, content: "", automations: [] };
+            setConversationId(meta.conversationId);
+            setStreamingResponse(partial);
+          },
+          onToken: (token) => {
+            if (!partial) return;
+            partial = { ...partial, content: partial.content + token };
+            setStreamingResponse(partial);
+          }
+        }, controller.signal);
       } catch (error) {
+        // Keep the tokens that already arrived on cancel; the server stores them too
+        const cancelled = partial as ChatResponse | null;
+        if (controller.signal.aborted && cancelled?.content) {
+          setResponses(prev => [cancelled, ...prev]);
+          setMessage("");
+        }
         console.error('Chat mutation error:', error);
         throw error;
+      } finally {
+        abortControllerRef.current = null;
+        refreshAfterChat();
       }
     },
     onSuccess: (response) => {
+      setStreamingResponse(null);
       if (response && response.content) {
         setResponses(prev => [response, ...prev]);
+        setConversationId(response.conversationId);
         setMessage("");
         toast({
           title: "Response received",
@@ -49,15 +158,99 @@ export default function Home() {
       }
     },
     onError: (error) => {
+      setStreamingResponse(null);
+
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        toast({
+          title: "Response cancelled",
+          description: "Generation was stopped before it finished",
+        });
+        return;
+      }
+
       console.error('Chat error:', error);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to get AI response",
+        description: describeError(error),
         variant: "destructive",
       });
     }
   });
 
+  // Compare and fusion modes are not streamed: all answers arrive together
+  const multiModelMutation = useMutation({
+    mutationFn: async (request: ChatRequest): Promise<ChatResponse> => {
+      try {
+        const response = await apiRequest('POST', '/api/chat', request);
+        return response.json();
+      } finally {
+        refreshAfterChat();
+      }
+    },
+    onSuccess: (response) => {
+      setResponses(prev => [response, ...prev]);
+      setConversationId(response.conversationId);
+      setMessage("");
+      toast({
+        title: response.fusion ? "Fused answer ready" : "Comparison ready",
+        description: response.fusion
+          ? `Merged by ${response.fusion.synthesizer.toUpperCase()} from ${response.fusion.drafts.length} drafts`
+          : `Answers from ${response.comparisons?.length ?? 0} models`,
+      });
+    },
+    onError: (error) => {
+      console.error('Compare error:', error);
+      toast({
+        title: "Error",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    }
+  });
+
+  const isPending = chatMutation.isPending || multiModelMutation.isPending;
+
+  const automationMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: 'confirm' | 'reject' }): Promise<AutomationAction> => {
+      const response = await apiRequest('POST', `/api/automations/${id}/${decision}`);
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      setResponses(prev => prev.map(response => ({
+        ...response,
+        automations: response.automations.map(automation => automation.id === updated.id ? updated : automation)
+      })));
+      toast({
+        title: updated.status === 'rejected' ? "Action rejected" : "Action processed",
+        description: updated.message,
+        variant: updated.status === 'failed' ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      console.error('Automation error:', error);
+      toast({
+        title: "Could not update action",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    }
+  });
+
+  const displayedResponses = streamingResponse ? [streamingResponse, ...responses] : responses;
+
+  // Picking a persona also switches to its default model, which can still be overridden
+  const handleSelectPersona = (id: string) => {
+    setPersonaId(id);
+    const defaultModel = personas?.find((persona) => persona.id === id)?.defaultModel;
+    if (defaultModel) {
+      setSelectedModel(defaultModel);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleSubmit = () => {
     try {
       if (!message?.trim()) {
@@ -78,9 +271,33 @@ export default function Home() {
         return;
       }
 
+      if (isMultiModel) {
+        if (!canCompare) {
+          toast({
+            title: "Not enough models",
+            description: "Compare and fusion need at least two models, and fewer are available to you",
+            variant: "destructive",
+          });
+          return;
+        }
+        multiModelMutation.mutate({
+          ...generation,
+          message: message.trim(),
+          model: 'auto',
+          models: catalogModels.map((model) => model.alias),
+          fusion: selectedModel === 'fusion',
+          conversationId,
+          personaId: personaId === NO_PERSONA ? undefined : personaId
+        });
+        return;
+      }
+
       chatMutation.mutate({
+        ...generation,
         message: message.trim(),
-        model: selectedModel as 'auto' | 'gpt' | 'claude' | 'llama'
+        model: selectedModel,
+        conversationId,
+        personaId: personaId === NO_PERSONA ? undefined : personaId
       });
     } catch (error) {
       console.error('Submit error:', error);
@@ -92,6 +309,47 @@ export default function Home() {
     }
   };
 
+  const handleNewConversation = () => {
+    abortControllerRef.current?.abort();
+    setConversationId(undefined);
+    setResponses([]);
+    setMessage("");
+  };
+
+  // Rebuilds the answer cards of a stored conversation, newest first
+  const handleSelectConversation = async (id: string) => {
+    if (id === conversationId || isPending) return;
+    try {
+      const res = await apiRequest('GET', `/api/conversations/${id}`);
+      const conversation: Conversation & { messages: Message[]; automations: AutomationAction[] } = await res.json();
+      const answers: ChatResponse[] = conversation.messages
+        .filter((entry) => entry.role === 'assistant')
+        .map((entry) => ({
+          id: entry.id,
+          conversationId: conversation.id,
+          content: entry.content,
+          model: entry.model ?? 'auto',
+          automations: conversation.automations.filter((action) => action.messageId === entry.id)
+        }))
+        .reverse();
+      setConversationId(conversation.id);
+      setResponses(answers);
+      setMessage("");
+    } catch (error) {
+      toast({
+        title: "Could not open conversation",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConversationDeleted = (id: string) => {
+    if (id === conversationId) {
+      handleNewConversation();
+    }
+  };
+
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -108,11 +366,19 @@ export default function Home() {
       case 'gpt': return 'bg-blue-50 text-blue-700 border border-blue-200';
       case 'claude': return 'bg-purple-50 text-purple-700 border border-purple-200';
       case 'llama': return 'bg-green-50 text-green-700 border border-green-200';
+      case 'fusion': return 'bg-indigo-50 text-indigo-700 border border-indigo-200';
       default: return 'bg-gray-50 text-gray-700 border border-gray-200';
     }
   };
 
-  const getAutomationColors = (type: string) => {
+  // "GPT timed out and CLAUDE failed", for the note on failed-over answers
+  const describeFailover = (attempts: FailoverAttempt[]) => attempts
+    .map((attempt) => `${attempt.model.toUpperCase()} ${attempt.error.startsWith('Timed out') ? 'timed out' : 'failed'}`)
+    .join(' and ');
+
+  const getAutomationColors = (type: string, status: AutomationStatus) => {
+    if (status === 'failed') return 'bg-red-50 text-red-700 border border-red-200';
+    if (status === 'rejected') return 'bg-gray-50 text-gray-500 border border-gray-200 line-through';
     switch (type) {
       case 'email': return 'bg-blue-50 text-blue-700 border border-blue-200';
       case 'task': return 'bg-green-50 text-green-700 border border-green-200';
@@ -121,159 +387,414 @@ export default function Home() {
     }
   };
 
+  // Lines shown under a proposed action so the user sees what will be sent
+  const describeAutomationPayload = (automation: AutomationAction): string[] => {
+    switch (automation.type) {
+      case 'email':
+        return [`To: ${automation.payload.to}`, `Subject: ${automation.payload.subject}`, automation.payload.body];
+      case 'task':
+        return [`Title: ${automation.payload.title}`, automation.payload.description];
+      case 'slack':
+        return [...(automation.payload.channel ? [`Channel: ${automation.payload.channel}`] : []), automation.payload.text];
+    }
+  };
+
   return (
-    <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="py-8 px-4">
-        <div className="max-w-2xl mx-auto text-center">
-          <h1 className="text-6xl font-light text-foreground mb-3 slide-down">
-            <span className="text-primary float">AWAKE</span>
-          </h1>
-          <p className="text-muted-foreground text-xl mb-12 fade-in" style={{animationDelay: '0.3s'}}>
-            Meta-AI OS Prototype
-          </p>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="max-w-2xl mx-auto px-4 py-8">
-        {/* Input Section */}
-        <div className="mb-8 scale-in" style={{animationDelay: '0.5s'}}>
-          {/* Search Input */}
-          <div className="relative mb-6">
-            <Textarea
-              id="user-input"
-              placeholder="Ask me anything..."
-              rows={2}
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault();
-                  handleSubmit();
-                }
-              }}
-              data-testid="input-message"
-              className="w-full text-lg py-5 px-6 border border-border rounded-full resize-none hover-glow focus:ring-2 focus:ring-primary transition-all duration-500 shadow-sm"
-            />
+    <SidebarProvider>
+      <ConversationSidebar
+        activeId={conversationId}
+        onSelect={handleSelectConversation}
+        onNew={handleNewConversation}
+        onDeleted={handleConversationDeleted}
+      />
+      <SidebarInset className="min-h-screen bg-background">
+        {/* Header */}
+        <header className="py-8 px-4">
+          {user && (
+            <div className="max-w-2xl mx-auto flex justify-end items-center gap-3 text-sm text-muted-foreground">
+              <SidebarTrigger className="mr-auto" data-testid="button-sidebar-toggle" />
+              <span data-testid="text-username">{user.username}</span>
+              {/* The dashboard covers every user's usage, so it is for admins only */}
+              {user.role === 'admin' && (
+                <>
+                  <Link href="/dashboard">
+                    <Button variant="ghost" size="sm" data-testid="link-dashboard">
+                      Dashboard
+                    </Button>
+                  </Link>
+                  <Link href="/admin">
+                    <Button variant="ghost" size="sm" data-testid="link-admin">
+                      Admin
+                    </Button>
+                  </Link>
+                </>
+              )}
+              <Link href="/personas">
+                <Button variant="ghost" size="sm" data-testid="link-personas">
+                  Personas
+                </Button>
+              </Link>
+              <Link href="/settings">
+                <Button variant="ghost" size="sm" data-testid="link-settings">
+                  API keys
+                </Button>
+              </Link>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-logout"
+              >
+                Sign out
+              </Button>
+            </div>
+          )}
+          <div className="max-w-2xl mx-auto text-center">
+            <h1 className="text-6xl font-light text-foreground mb-3 slide-down">
+              <span className="text-primary float">AWAKE</span>
+            </h1>
+            <p className="text-muted-foreground text-xl mb-12 fade-in" style={{animationDelay: '0.3s'}}>
+              Meta-AI OS Prototype
+            </p>
           </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-2xl mx-auto px-4 py-8">
+          {/* Input Section */}
+          <div className="mb-8 scale-in" style={{animationDelay: '0.5s'}}>
+            {/* Search Input */}
+            <div className="relative mb-6">
+              <Textarea
+                id="user-input"
+                placeholder="Ask me anything..."
+                rows={2}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSubmit();
+                  }
+                }}
+                data-testid="input-message"
+                className="w-full text-lg py-5 px-6 border border-border rounded-full resize-none hover-glow focus:ring-2 focus:ring-primary transition-all duration-500 shadow-sm"
+              />
+            </div>
 
-          {/* Model Selection and Submit */}
-          <div className="flex flex-col sm:flex-row gap-6 items-center justify-center">
-            <Select value={selectedModel} onValueChange={setSelectedModel} data-testid="select-model">
-              <SelectTrigger className="w-52 hover-glow hover-scale" data-testid="trigger-model-select">
-                <SelectValue placeholder="Select AI model" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="auto" data-testid="option-auto">🎲 Auto</SelectItem>
-                <SelectItem value="gpt" data-testid="option-gpt">🧠 GPT</SelectItem>
-                <SelectItem value="claude" data-testid="option-claude">🤖 Claude</SelectItem>
-                <SelectItem value="llama" data-testid="option-llama">🦙 LLaMA</SelectItem>
-              </SelectContent>
-            </Select>
+            {/* Model Selection and Submit */}
+            <div className="flex flex-col sm:flex-row gap-6 items-center justify-center">
+              <Select value={selectedModel} onValueChange={setSelectedModel} data-testid="select-model">
+                <SelectTrigger className="w-52 hover-glow hover-scale" data-testid="trigger-model-select">
+                  <SelectValue placeholder="Select AI model" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto" data-testid="option-auto">🧭 Auto</SelectItem>
+                  {catalogModels.map((model) => (
+                    <SelectItem
+                      key={model.alias}
+                      value={model.alias}
+                      title={describeCatalogModel(model)}
+                      data-testid={`option-${model.alias}`}
+                    >
+                      {MODEL_ICONS[model.alias] ?? DEFAULT_MODEL_ICON} {model.label}
+                    </SelectItem>
+                  ))}
+                  {/* Both modes need at least two models to work with */}
+                  <SelectItem value="compare" disabled={!canCompare} data-testid="option-compare">⚖️ Compare all</SelectItem>
+                  <SelectItem value="fusion" disabled={!canCompare} data-testid="option-fusion">🔮 Fusion</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {personas && personas.length > 0 && (
+                <Select value={personaId} onValueChange={handleSelectPersona} data-testid="select-persona">
+                  <SelectTrigger className="w-52 hover-glow hover-scale" data-testid="trigger-persona-select">
+                    <SelectValue placeholder="Persona" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PERSONA} data-testid="option-persona-none">🎭 No persona</SelectItem>
+                    {personas.map((persona) => (
+                      <SelectItem key={persona.id} value={persona.id} data-testid={`option-persona-${persona.id}`}>
+                        {persona.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <AdvancedSettings value={generation} onChange={setGeneration} disabled={isPending} />
             
-            <Button 
-              onClick={handleSubmit}
-              disabled={chatMutation.isPending || !message.trim()}
-              data-testid="button-submit"
-              className="px-10 py-3 btn-primary hover-bounce rounded-full text-lg font-medium"
-            >
-              {chatMutation.isPending ? (
-                <LoadingDots />
+              {multiModelMutation.isPending ? (
+                <Button
+                  disabled
+                  data-testid="button-submit"
+                  className="px-10 py-3 btn-primary rounded-full text-lg font-medium"
+                >
+                  <LoadingDots />
+                </Button>
+              ) : chatMutation.isPending ? (
+                <Button
+                  variant="outline"
+                  onClick={handleCancel}
+                  data-testid="button-cancel"
+                  className="px-10 py-3 hover-bounce rounded-full text-lg font-medium"
+                >
+                  ⏹ Stop
+                </Button>
               ) : (
-                "✨ Search"
+                <Button 
+                  onClick={handleSubmit}
+                  disabled={!message.trim()}
+                  data-testid="button-submit"
+                  className="px-10 py-3 btn-primary hover-bounce rounded-full text-lg font-medium"
+                >
+                  ✨ Search
+                </Button>
               )}
-            </Button>
+
+              {conversationId && (
+                <Button
+                  variant="outline"
+                  onClick={handleNewConversation}
+                  disabled={isPending}
+                  data-testid="button-new-conversation"
+                  className="px-6 py-3 rounded-full hover-scale"
+                >
+                  New conversation
+                </Button>
+              )}
+            </div>
           </div>
-        </div>
-
-        {/* Response Section */}
-        <div className="space-y-6" data-testid="responses-container">
-          {responses.length === 0 ? (
-            /* Empty State */
-            <div className="text-center py-20 bounce-in" data-testid="empty-state" style={{animationDelay: '0.8s'}}>
-              <div className="w-16 h-16 bg-gradient-to-br from-blue-100 to-purple-100 rounded-full flex items-center justify-center mx-auto mb-4 pulse-ring">
-                <span className="text-2xl">🤔</span>
+
+          {/* Response Section */}
+          <div className="space-y-6" data-testid="responses-container">
+            {displayedResponses.length === 0 ? (
+              /* Empty State */
+              <div className="text-center py-20 bounce-in" data-testid="empty-state" style={{animationDelay: '0.8s'}}>
+                <div className="w-16 h-16 bg-gradient-to-br from-blue-100 to-purple-100 rounded-full flex items-center justify-center mx-auto mb-4 pulse-ring">
+                  <span className="text-2xl">🤔</span>
+                </div>
+                <p className="text-muted-foreground text-xl mb-2">Ready when you are!</p>
+                <p className="text-muted-foreground text-sm">Ask any question to get started</p>
               </div>
-              <p className="text-muted-foreground text-xl mb-2">Ready when you are!</p>
-              <p className="text-muted-foreground text-sm">Ask any question to get started</p>
-            </div>
-          ) : (
-            responses.map((response, index) => (
-              <Card key={response.id} className="fade-in hover-lift shadow-lg border-0 bg-gradient-to-br from-white to-gray-50" data-testid={`response-${response.id}`} style={{animationDelay: `${index * 0.2}s`}}>
-                <CardContent className="p-8">
-                  <div className="space-y-6">
-                    {/* Response Header */}
-                    <div className="flex items-center justify-between mb-6 slide-down">
-                      <span 
-                        className={`px-4 py-2 text-sm rounded-full font-medium hover-scale ${getModelBadgeColor(response.model)}`}
-                        data-testid={`badge-model-${response.id}`}
-                      >
-                        {response.model.toUpperCase()}
-                      </span>
-                      <p className="text-sm text-muted-foreground" data-testid={`text-timestamp-${response.id}`}>
-                        • Just now
-                      </p>
-                    </div>
+            ) : (
+              displayedResponses.map((response, index) => (
+                <Card key={response.id} className="fade-in hover-lift shadow-lg border-0 bg-gradient-to-br from-white to-gray-50" data-testid={`response-${response.id}`} style={{animationDelay: `${index * 0.2}s`}}>
+                  <CardContent className="p-8">
+                    <div className="space-y-6">
+                      {/* Response Header */}
+                      <div className="flex items-center justify-between mb-6 slide-down">
+                        <span 
+                          className={`px-4 py-2 text-sm rounded-full font-medium hover-scale ${getModelBadgeColor(response.model)}`}
+                          data-testid={`badge-model-${response.id}`}
+                        >
+                          {response.comparisons ? "COMPARE" : response.model.toUpperCase()}
+                        </span>
+                        <p className="text-sm text-muted-foreground" data-testid={`text-timestamp-${response.id}`}>
+                          {response.usage && (
+                            <span data-testid={`text-usage-${response.id}`}>
+                              {response.usage.totalTokens} tokens
+                              {response.usage.costUsd !== undefined && ` • $${response.usage.costUsd.toFixed(4)}`}
+                              {' '}
+                            </span>
+                          )}
+                          • Just now
+                        </p>
+                      </div>
 
-                    {/* Response Content */}
-                    <div className="text-foreground leading-relaxed text-lg fade-in" data-testid={`text-content-${response.id}`} style={{animationDelay: '0.2s'}}>
-                      <div className="whitespace-pre-wrap">{response.content}</div>
-                    </div>
+                      {response.failover && response.failover.length > 0 && (
+                        <p
+                          className="text-xs text-amber-700 -mt-4"
+                          title={response.failover.map((attempt) => `${attempt.model.toUpperCase()}: ${attempt.error}`).join('\n')}
+                          data-testid={`text-failover-${response.id}`}
+                        >
+                          ↪ Answered by {(response.fusion?.synthesizer ?? response.model).toUpperCase()} after {describeFailover(response.failover)}
+                        </p>
+                      )}
 
-                    {/* Automation Simulations */}
-                    {response.automations.length > 0 && (
-                      <div className="mt-6 pt-6 border-t border-border">
-                        <h4 className="text-sm font-medium text-muted-foreground mb-3">Automated Actions</h4>
-                        <div className="flex flex-wrap gap-3">
-                          {response.automations.map((automation, index) => (
-                            <div 
-                              key={index}
-                              className={`inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium hover-bounce ${getAutomationColors(automation.type)}`}
-                              data-testid={`automation-${automation.type}-${response.id}`}
-                              style={{animationDelay: `${index * 0.1 + 0.4}s`}}
-                            >
-                              <span className="text-lg">{automation.icon}</span>
-                              <span>{automation.message}</span>
-                            </div>
+                      {response.routing && (
+                        <p className="text-xs text-muted-foreground -mt-4" data-testid={`text-routing-${response.id}`}>
+                          🧭 Auto: {response.routing.reason}
+                        </p>
+                      )}
+
+                      {response.cached && (
+                        <p className="text-xs text-muted-foreground -mt-4" data-testid={`text-cached-${response.id}`}>
+                          ♻️ Answered from the response cache
+                        </p>
+                      )}
+
+                      {/* Response Content */}
+                      {response.comparisons ? (
+                        <ResizablePanelGroup direction="horizontal" className="rounded-lg border border-border fade-in" data-testid={`comparison-${response.id}`}>
+                          {response.comparisons.map((answer, answerIndex) => (
+                            <Fragment key={answer.model}>
+                              {answerIndex > 0 && <ResizableHandle withHandle />}
+                              <ResizablePanel defaultSize={100 / response.comparisons!.length} minSize={15}>
+                                <div className="p-4 space-y-3 h-full" data-testid={`comparison-${answer.model}-${response.id}`}>
+                                  <div className="flex flex-wrap items-center gap-2">
+                                    <span className={`px-3 py-1 text-xs rounded-full font-medium ${getModelBadgeColor(answer.model)}`}>
+                                      {answer.model.toUpperCase()}
+                                    </span>
+                                    <span className="text-xs text-muted-foreground">
+                                      {(answer.latencyMs / 1000).toFixed(1)}s
+                                      {answer.usage && ` • ${answer.usage.totalTokens} tokens`}
+                                    </span>
+                                  </div>
+                                  {answer.error ? (
+                                    <p className="text-sm text-red-600">{answer.error}</p>
+                                  ) : (
+                                    <Markdown content={answer.content} className="prose-sm text-foreground max-h-96 overflow-y-auto" />
+                                  )}
+                                </div>
+                              </ResizablePanel>
+                            </Fragment>
                           ))}
+                        </ResizablePanelGroup>
+                      ) : (
+                        <div className="text-foreground leading-relaxed text-lg fade-in" data-testid={`text-content-${response.id}`} style={{animationDelay: '0.2s'}}>
+                          {response.id === streamingResponse?.id && !response.content ? (
+                            <LoadingDots />
+                          ) : (
+                            <Markdown content={response.content} className="text-foreground" />
+                          )}
                         </div>
-                      </div>
-                    )}
+                      )}
+
+                      {/* Fusion Drafts */}
+                      {response.fusion && (
+                        <div className="pt-6 border-t border-border" data-testid={`fusion-drafts-${response.id}`}>
+                          <h4 className="text-sm font-medium text-muted-foreground mb-3">
+                            Drafts merged by {response.fusion.synthesizer.toUpperCase()}
+                          </h4>
+                          <Tabs defaultValue={response.fusion.drafts[0]?.model}>
+                            <TabsList>
+                              {response.fusion.drafts.map((draft) => (
+                                <TabsTrigger key={draft.model} value={draft.model} data-testid={`tab-draft-${draft.model}-${response.id}`}>
+                                  {draft.model.toUpperCase()}
+                                  {response.fusion!.citedModels.includes(draft.model) && " ✓"}
+                                </TabsTrigger>
+                              ))}
+                            </TabsList>
+                            {response.fusion.drafts.map((draft) => (
+                              <TabsContent key={draft.model} value={draft.model}>
+                                <p className="text-xs text-muted-foreground mb-2">
+                                  {(draft.latencyMs / 1000).toFixed(1)}s
+                                  {draft.usage && ` • ${draft.usage.totalTokens} tokens`}
+                                </p>
+                                {draft.error ? (
+                                  <p className="text-sm text-red-600">{draft.error}</p>
+                                ) : (
+                                  <Markdown content={draft.content} className="prose-sm text-muted-foreground max-h-96 overflow-y-auto" />
+                                )}
+                              </TabsContent>
+                            ))}
+                          </Tabs>
+                        </div>
+                      )}
+
+                      {/* Automation Results */}
+                      {response.automations.length > 0 && (
+                        <div className="mt-6 pt-6 border-t border-border">
+                          <h4 className="text-sm font-medium text-muted-foreground mb-3">Actions</h4>
+                          <div className="flex flex-wrap gap-3">
+                            {response.automations.map((automation, index) => (
+                              <div key={automation.id} className="flex flex-col gap-2 max-w-full">
+                                <div 
+                                  className={`inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium hover-bounce ${getAutomationColors(automation.type, automation.status)}`}
+                                  data-testid={`automation-${automation.type}-${response.id}`}
+                                  data-status={automation.status}
+                                  title={automation.error}
+                                  style={{animationDelay: `${index * 0.1 + 0.4}s`}}
+                                >
+                                  <span className="text-lg">{automation.icon}</span>
+                                  <span>{automation.message}</span>
+                                </div>
+
+                                {automation.status === 'proposed' && (
+                                  <div className="rounded-lg border border-border bg-white p-4 text-sm" data-testid={`automation-preview-${automation.id}`}>
+                                    {describeAutomationPayload(automation).filter(Boolean).map((line, lineIndex) => (
+                                      <p key={lineIndex} className="text-muted-foreground whitespace-pre-wrap line-clamp-4">{line}</p>
+                                    ))}
+                                    {automation.dryRun && (
+                                      <p className="text-xs text-muted-foreground mt-2">Dry run: approving will not send anything</p>
+                                    )}
+                                    <div className="flex gap-2 mt-3">
+                                      <Button
+                                        size="sm"
+                                        onClick={() => automationMutation.mutate({ id: automation.id, decision: 'confirm' })}
+                                        disabled={automationMutation.isPending}
+                                        data-testid={`button-approve-${automation.id}`}
+                                        className="rounded-full"
+                                      >
+                                        Approve
+                                      </Button>
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => automationMutation.mutate({ id: automation.id, decision: 'reject' })}
+                                        disabled={automationMutation.isPending}
+                                        data-testid={`button-reject-${automation.id}`}
+                                        className="rounded-full"
+                                      >
+                                        Reject
+                                      </Button>
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+
+        </main>
+
+        {/* Footer */}
+        <footer className="mt-20 py-12 fade-in" style={{animationDelay: '1s'}}>
+          <div className="text-center">
+            <p className="text-lg text-muted-foreground mb-4">
+              Powered by many AIs, fused into one — <span className="font-semibold text-primary glow">AWAKE</span>
+            </p>
+            <div className="flex justify-center items-center space-x-6 mb-4">
+              {catalogModels.map(({ alias: model, label }) => {
+                const health = healthCheck?.models.find((entry) => entry.model === model);
+                // No answer from /api/health at all means nothing is reachable
+                const style = HEALTH_STYLES[health?.status ?? 'offline'];
+                return (
+                  <div
+                    key={model}
+                    className="flex items-center gap-2 hover-scale"
+                    title={health ? describeModelHealth(health) : 'Server unreachable'}
+                    data-testid={`status-${model}`}
+                  >
+                    <div className={`w-3 h-3 rounded-full pulse-ring ${style.dot}`}></div>
+                    <span className="text-sm text-muted-foreground font-medium">{label} {style.label}</span>
                   </div>
-                </CardContent>
-              </Card>
-            ))
-          )}
-        </div>
-
-      </main>
-
-      {/* Footer */}
-      <footer className="mt-20 py-12 fade-in" style={{animationDelay: '1s'}}>
-        <div className="text-center">
-          <p className="text-lg text-muted-foreground mb-4">
-            Powered by many AIs, fused into one — <span className="font-semibold text-primary glow">AWAKE</span>
-          </p>
-          <div className="flex justify-center items-center space-x-6 mb-4">
-            <div className="flex items-center gap-2 hover-scale">
-              <div className={`w-3 h-3 rounded-full pulse-ring ${healthCheck ? 'bg-green-500' : 'bg-red-500'}`}></div>
-              <span className="text-sm text-muted-foreground font-medium">GPT Online</span>
+                );
+              })}
             </div>
-            <div className="flex items-center gap-2 hover-scale">
-              <div className={`w-3 h-3 rounded-full pulse-ring ${healthCheck ? 'bg-green-500' : 'bg-red-500'}`}></div>
-              <span className="text-sm text-muted-foreground font-medium">Claude Online</span>
-            </div>
-            <div className="flex items-center gap-2 hover-scale">
-              <div className={`w-3 h-3 rounded-full pulse-ring ${healthCheck ? 'bg-green-500' : 'bg-red-500'}`}></div>
-              <span className="text-sm text-muted-foreground font-medium">LLaMA Online</span>
+            {quota && (
+              <div className="text-xs text-muted-foreground mb-2" data-testid="text-quota">
+                {quota.tokenLimit !== null
+                  ? `${Math.max(0, quota.tokenLimit - quota.tokensUsed).toLocaleString()} of ${quota.tokenLimit.toLocaleString()} tokens left today`
+                  : `${quota.tokensUsed.toLocaleString()} tokens used today`}
+                {quota.costLimitUsd !== null && ` • $${Math.max(0, quota.costLimitUsd - quota.costUsd).toFixed(2)} of $${quota.costLimitUsd.toFixed(2)} budget left`}
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              🚀 Ready for deployment • ⚡ Powered by OpenRouter
             </div>
           </div>
-          <div className="text-xs text-muted-foreground">
-            🚀 Ready for deployment • ⚡ Powered by OpenRouter
-          </div>
-        </div>
-      </footer>
-    </div>
+        </footer>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
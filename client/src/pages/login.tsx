@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LoadingDots } from "@/components/ui/loading-dots";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, type Credentials } from "@/hooks/use-auth";
+import { describeError } from "@/lib/queryClient";
+
+export default function Login() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [credentials, setCredentials] = useState<Credentials>({ username: "", password: "" });
+  const { toast } = useToast();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+
+  const handleSubmit = (mode: "login" | "register") => (e: React.FormEvent) => {
+    e.preventDefault();
+    const mutation = mode === "login" ? loginMutation : registerMutation;
+    mutation.mutate(credentials, {
+      onError: (error) => {
+        toast({
+          title: mode === "login" ? "Sign in failed" : "Registration failed",
+          description: describeError(error),
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const renderForm = (mode: "login" | "register") => (
+    <form onSubmit={handleSubmit(mode)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          autoComplete="username"
+          value={credentials.username}
+          onChange={(e) => setCredentials({ ...credentials, username: e.target.value })}
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          value={credentials.password}
+          onChange={(e) => setCredentials({ ...credentials, password: e.target.value })}
+          data-testid={`input-${mode}-password`}
+        />
+        {mode === "register" && (
+          <p className="text-xs text-muted-foreground">At least 8 characters</p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        disabled={isPending || !credentials.username || !credentials.password}
+        className="w-full btn-primary rounded-full"
+        data-testid={`button-${mode}`}
+      >
+        {isPending ? <LoadingDots /> : mode === "login" ? "Sign in" : "Create account"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <div className="w-full max-w-md">
+        <h1 className="text-5xl font-light text-center mb-2 slide-down">
+          <span className="text-primary float">AWAKE</span>
+        </h1>
+        <p className="text-muted-foreground text-center mb-8 fade-in">Meta-AI OS Prototype</p>
+
+        <Card className="shadow-lg border-0 scale-in">
+          <CardContent className="p-8">
+            <Tabs defaultValue="login">
+              <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsTrigger value="login" data-testid="tab-login">Sign in</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+              </TabsList>
+              <TabsContent value="login">{renderForm("login")}</TabsContent>
+              <TabsContent value="register">{renderForm("register")}</TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
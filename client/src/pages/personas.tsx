@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadingDots } from "@/components/ui/loading-dots";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, describeError, queryClient } from "@/lib/queryClient";
+import type { CreatePersona, Persona } from "@shared/schema";
+import type { ModelCatalogResponse } from "@shared/types";
+
+const PERSONAS_QUERY_KEY = ["/api/personas"];
+
+// Select has no empty value, so "none" stands for "use whatever model is picked"
+const NO_MODEL = "none";
+
+interface PersonaForm {
+  name: string;
+  systemPrompt: string;
+  defaultModel: string;
+  temperature: string;
+  maxTokens: string;
+}
+
+const EMPTY_FORM: PersonaForm = { name: "", systemPrompt: "", defaultModel: NO_MODEL, temperature: "", maxTokens: "" };
+
+function toForm(persona: Persona): PersonaForm {
+  return {
+    name: persona.name,
+    systemPrompt: persona.systemPrompt,
+    defaultModel: persona.defaultModel ?? NO_MODEL,
+    temperature: persona.temperature?.toString() ?? "",
+    maxTokens: persona.maxTokens?.toString() ?? "",
+  };
+}
+
+// Blank number fields are sent as null so the provider defaults apply
+function toBody(form: PersonaForm): CreatePersona {
+  return {
+    name: form.name,
+    systemPrompt: form.systemPrompt,
+    defaultModel: form.defaultModel === NO_MODEL ? null : form.defaultModel,
+    temperature: form.temperature.trim() ? Number(form.temperature) : null,
+    maxTokens: form.maxTokens.trim() ? Number(form.maxTokens) : null,
+  };
+}
+
+export default function Personas() {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PersonaForm>(EMPTY_FORM);
+  const { toast } = useToast();
+
+  const { data: personas, isLoading } = useQuery<Persona[]>({ queryKey: PERSONAS_QUERY_KEY });
+  const { data: catalog } = useQuery<ModelCatalogResponse>({ queryKey: ["/api/models"] });
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<Persona> => {
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/personas/${editingId}`, toBody(form))
+        : await apiRequest("POST", "/api/personas", toBody(form));
+      return res.json();
+    },
+    onSuccess: (persona) => {
+      queryClient.invalidateQueries({ queryKey: PERSONAS_QUERY_KEY });
+      toast({ title: editingId ? "Persona updated" : "Persona created", description: persona.name });
+      resetForm();
+    },
+    onError: (error) => {
+      toast({ title: "Could not save persona", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/personas/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: PERSONAS_QUERY_KEY });
+      if (id === editingId) resetForm();
+    },
+    onError: (error) => {
+      toast({ title: "Could not delete persona", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const update = (field: keyof PersonaForm) => (value: string) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  return (
+    <div className="min-h-screen bg-background px-4 py-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-light text-foreground">Personas</h1>
+          <Link href="/">
+            <Button variant="ghost" size="sm" data-testid="link-home">← Back to chat</Button>
+          </Link>
+        </div>
+        <p className="text-muted-foreground text-sm">
+          A persona is a system prompt with its own default model and sampling settings. Pick one next to the model
+          selector and it is applied to every message you send.
+        </p>
+
+        <Card className="shadow-lg border-0">
+          <CardContent className="p-6">
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveMutation.mutate();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="persona-name">Name</Label>
+                <Input
+                  id="persona-name"
+                  placeholder="e.g. Code reviewer"
+                  value={form.name}
+                  onChange={(e) => update("name")(e.target.value)}
+                  data-testid="input-persona-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="persona-prompt">System prompt</Label>
+                <Textarea
+                  id="persona-prompt"
+                  rows={6}
+                  placeholder="You are a meticulous reviewer..."
+                  value={form.systemPrompt}
+                  onChange={(e) => update("systemPrompt")(e.target.value)}
+                  data-testid="input-persona-prompt"
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Default model</Label>
+                  <Select value={form.defaultModel} onValueChange={update("defaultModel")}>
+                    <SelectTrigger data-testid="select-persona-model">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_MODEL}>Keep current</SelectItem>
+                      <SelectItem value="auto">Auto</SelectItem>
+                      {catalog?.models.map((model) => (
+                        <SelectItem key={model.alias} value={model.alias}>{model.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="persona-temperature">Temperature</Label>
+                  <Input
+                    id="persona-temperature"
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    placeholder="Default"
+                    value={form.temperature}
+                    onChange={(e) => update("temperature")(e.target.value)}
+                    data-testid="input-persona-temperature"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="persona-max-tokens">Max tokens</Label>
+                  <Input
+                    id="persona-max-tokens"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder="Default"
+                    value={form.maxTokens}
+                    onChange={(e) => update("maxTokens")(e.target.value)}
+                    data-testid="input-persona-max-tokens"
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="submit"
+                  disabled={saveMutation.isPending || !form.name.trim() || !form.systemPrompt.trim()}
+                  className="btn-primary rounded-full"
+                  data-testid="button-save-persona"
+                >
+                  {saveMutation.isPending ? <LoadingDots /> : editingId ? "Save changes" : "Create persona"}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="ghost" onClick={resetForm} data-testid="button-cancel-edit">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-0">
+          <CardContent className="p-6">
+            {isLoading ? (
+              <div className="flex justify-center py-6"><LoadingDots /></div>
+            ) : !personas?.length ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No personas yet</p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {personas.map((persona) => (
+                  <li key={persona.id} className="flex items-start justify-between gap-4 py-4" data-testid={`row-persona-${persona.id}`}>
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{persona.name}</span>
+                        {persona.defaultModel && <Badge variant="secondary">{persona.defaultModel.toUpperCase()}</Badge>}
+                        {persona.temperature !== null && <Badge variant="outline">temp {persona.temperature}</Badge>}
+                        {persona.maxTokens !== null && <Badge variant="outline">{persona.maxTokens} tokens</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{persona.systemPrompt}</p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setEditingId(persona.id);
+                          setForm(toForm(persona));
+                        }}
+                        data-testid={`button-edit-${persona.id}`}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => deleteMutation.mutate(persona.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-${persona.id}`}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
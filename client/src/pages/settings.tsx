@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LoadingDots } from "@/components/ui/loading-dots";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, describeError, queryClient } from "@/lib/queryClient";
+import { API_KEY_SCOPES, type ApiKeyScope, type PublicApiKey } from "@shared/schema";
+
+type CreatedApiKey = PublicApiKey & { key: string };
+
+const KEYS_QUERY_KEY = ["/api/keys"];
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  chat: "Send prompts and read conversations",
+  automations: "Approve or reject proposed automations",
+  admin: "Admin routes: metrics and model settings",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+export default function Settings() {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["chat"]);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  // Only admins may hand the admin scope to a key
+  const availableScopes = API_KEY_SCOPES.filter((scope) => scope !== "admin" || user?.role === "admin");
+
+  const { data: keys, isLoading } = useQuery<PublicApiKey[]>({ queryKey: KEYS_QUERY_KEY });
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<CreatedApiKey> => {
+      const res = await apiRequest("POST", "/api/keys", { name, scopes });
+      return res.json();
+    },
+    onSuccess: (apiKey) => {
+      setCreatedKey(apiKey);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: KEYS_QUERY_KEY });
+    },
+    onError: (error) => {
+      toast({ title: "Could not create key", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string): Promise<PublicApiKey> => {
+      const res = await apiRequest("DELETE", `/api/keys/${id}`);
+      return res.json();
+    },
+    onSuccess: (apiKey) => {
+      queryClient.invalidateQueries({ queryKey: KEYS_QUERY_KEY });
+      toast({ title: "Key revoked", description: `${apiKey.name} can no longer be used` });
+    },
+    onError: (error) => {
+      toast({ title: "Could not revoke key", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey.key);
+    toast({ title: "Copied", description: "The key is on your clipboard" });
+  };
+
+  return (
+    <div className="min-h-screen bg-background px-4 py-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-light text-foreground">API keys</h1>
+          <Link href="/">
+            <Button variant="ghost" size="sm" data-testid="link-home">← Back to chat</Button>
+          </Link>
+        </div>
+        <p className="text-muted-foreground text-sm">
+          Use a key from scripts and CI jobs with an <code>Authorization: Bearer &lt;key&gt;</code> header.
+        </p>
+
+        <Card className="shadow-lg border-0">
+          <CardContent className="p-6">
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createMutation.mutate();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="key-name">Name</Label>
+                <Input
+                  id="key-name"
+                  placeholder="e.g. nightly CI"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  data-testid="input-key-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {availableScopes.map((scope) => (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      data-testid={`checkbox-scope-${scope}`}
+                    />
+                    <Label htmlFor={`scope-${scope}`} className="font-normal">
+                      {scope} <span className="text-muted-foreground">— {SCOPE_DESCRIPTIONS[scope]}</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <Button
+                type="submit"
+                disabled={createMutation.isPending || !name.trim() || scopes.length === 0}
+                className="btn-primary rounded-full"
+                data-testid="button-create-key"
+              >
+                {createMutation.isPending ? <LoadingDots /> : "Create key"}
+              </Button>
+            </form>
+
+            {createdKey && (
+              <div className="mt-6 rounded-lg border border-primary/30 bg-primary/5 p-4 space-y-2">
+                <p className="text-sm font-medium">Copy this key now. It will not be shown again.</p>
+                <div className="flex gap-2">
+                  <Input readOnly value={createdKey.key} className="font-mono text-xs" data-testid="text-new-key" />
+                  <Button type="button" variant="outline" onClick={handleCopy} data-testid="button-copy-key">
+                    Copy
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-0">
+          <CardContent className="p-6">
+            {isLoading ? (
+              <div className="flex justify-center py-6"><LoadingDots /></div>
+            ) : !keys?.length ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No API keys yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {keys.map((apiKey) => (
+                    <TableRow key={apiKey.id} className={apiKey.revokedAt ? "opacity-50" : undefined} data-testid={`row-key-${apiKey.id}`}>
+                      <TableCell>{apiKey.name}</TableCell>
+                      <TableCell className="font-mono text-xs">{apiKey.prefix}…</TableCell>
+                      <TableCell className="space-x-1">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="secondary">{scope}</Badge>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{formatDate(apiKey.lastUsedAt)}</TableCell>
+                      <TableCell className="text-right">
+                        {apiKey.revokedAt ? (
+                          <span className="text-xs text-muted-foreground">Revoked</span>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeMutation.mutate(apiKey.id)}
+                            disabled={revokeMutation.isPending}
+                            data-testid={`button-revoke-${apiKey.id}`}
+                          >
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
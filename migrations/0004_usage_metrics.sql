@@ -0,0 +1,2 @@
+ALTER TABLE "usage_records" ADD COLUMN "latency_ms" integer;--> statement-breakpoint
+ALTER TABLE "usage_records" ADD COLUMN "error" text;
\ No newline at end of file
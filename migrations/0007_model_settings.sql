@@ -0,0 +1,14 @@
+CREATE TABLE "model_settings" (
+	"alias" text PRIMARY KEY NOT NULL,
+	"model_id" text NOT NULL,
+	"label" text,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"max_tokens" integer,
+	"max_prompt_price" double precision,
+	"max_completion_price" double precision,
+	"allowed_roles" text[],
+	"allowed_user_ids" text[],
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'user' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "response_cache" (
+	"key" text PRIMARY KEY NOT NULL,
+	"model" text NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
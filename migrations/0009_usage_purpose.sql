@@ -0,0 +1 @@
+ALTER TABLE "usage_records" ADD COLUMN "purpose" text DEFAULT 'chat' NOT NULL;
\ No newline at end of file
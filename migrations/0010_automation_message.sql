@@ -0,0 +1,2 @@
+ALTER TABLE "automations" ADD COLUMN "message_id" varchar;--> statement-breakpoint
+ALTER TABLE "automations" ADD CONSTRAINT "automations_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,125 @@
+import type { Express, RequestHandler } from "express";
+import { fromZodError } from "zod-validation-error";
+import { modelAliasSchema, updateUserRoleSchema, upsertModelSettingSchema } from "@shared/schema";
+import type { AdminModelsResponse } from "@shared/types";
+import { requireAdmin, toPublicUser } from "./auth";
+import { storage } from "./storage";
+import type { ModelCatalog } from "./services/modelCatalog";
+
+// Other instances pick up an admin's change within this long
+const SETTINGS_RELOAD_MS = 60 * 1000;
+
+// Model allowlist, aliases, caps and restrictions, plus user roles. The saved
+// model settings are laid over the server's default aliases at startup, after
+// every change here, and again once a minute in case another instance changed them.
+// Routes are mounted straight away; API requests wait for the first load instead.
+export function setupAdmin(app: Express, catalog: ModelCatalog) {
+  let loadedAt = 0;
+  const loadModelSettings = async () => {
+    catalog.applySettings(await storage.listModelSettings());
+    loadedAt = Date.now();
+  };
+
+  const initialLoad = loadModelSettings().catch((error) => {
+    console.error('Failed to load model settings, using the defaults:', error);
+  });
+
+  // Holds requests until the startup load has finished, so restrictions apply
+  // from the first request; after that it reloads in the background and the
+  // request goes ahead on the current settings
+  const reloadModelSettings: RequestHandler = async (req, res, next) => {
+    await initialLoad;
+    if (Date.now() - loadedAt >= SETTINGS_RELOAD_MS) {
+      loadedAt = Date.now();
+      loadModelSettings().catch((error) => {
+        console.error('Failed to reload model settings:', error);
+      });
+    }
+    next();
+  };
+  app.use('/api', reloadModelSettings);
+
+  // Every configured alias, including disabled ones, with the provider's full list
+  app.get('/api/admin/models', requireAdmin, async (req, res) => {
+    try {
+      const models: AdminModelsResponse = await catalog.describeAll();
+      res.json(models);
+    } catch (error) {
+      console.error('Admin model list error:', error);
+      res.status(500).json({ error: 'Failed to load models' });
+    }
+  });
+
+  // Creates an alias or replaces its settings wholesale
+  app.put('/api/admin/models/:alias', requireAdmin, async (req, res) => {
+    try {
+      const alias = modelAliasSchema.safeParse(req.params.alias);
+      if (!alias.success) {
+        return res.status(400).json({ error: fromZodError(alias.error).message });
+      }
+      const result = upsertModelSettingSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+
+      const setting = await storage.saveModelSetting(alias.data, result.data);
+      await loadModelSettings();
+      console.log('Model settings saved:', { alias: setting.alias, modelId: setting.modelId, enabled: setting.enabled, by: req.user!.id });
+      res.json(setting);
+    } catch (error) {
+      console.error('Model settings save error:', error);
+      res.status(500).json({ error: 'Failed to save model settings' });
+    }
+  });
+
+  // Drops the admin settings: a default alias goes back to the server's
+  // configuration, an alias an admin added disappears
+  app.delete('/api/admin/models/:alias', requireAdmin, async (req, res) => {
+    try {
+      if (!(await storage.deleteModelSetting(req.params.alias))) {
+        return res.status(404).json({ error: 'No settings saved for this model' });
+      }
+
+      await loadModelSettings();
+      console.log('Model settings removed:', { alias: req.params.alias, by: req.user!.id });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Model settings reset error:', error);
+      res.status(500).json({ error: 'Failed to reset model settings' });
+    }
+  });
+
+  app.get('/api/admin/users', requireAdmin, async (req, res) => {
+    try {
+      const users = await storage.listUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error('Admin user list error:', error);
+      res.status(500).json({ error: 'Failed to load users' });
+    }
+  });
+
+  app.patch('/api/admin/users/:id', requireAdmin, async (req, res) => {
+    try {
+      const result = updateUserRoleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      // Otherwise the last admin could lock everyone out of this page
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ error: 'You cannot change your own role' });
+      }
+
+      const user = await storage.updateUserRole(req.params.id, result.data.role);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      console.log('User role changed:', { id: user.id, role: user.role, by: req.user!.id });
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error('User role update error:', error);
+      res.status(500).json({ error: 'Failed to update user role' });
+    }
+  });
+}
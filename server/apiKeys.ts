@@ -0,0 +1,114 @@
+import type { Express, RequestHandler } from "express";
+import { createHash, randomBytes } from "crypto";
+import { fromZodError } from "zod-validation-error";
+import { createApiKeySchema, type ApiKey, type PublicApiKey } from "@shared/schema";
+import { requireSession } from "./auth";
+import { storage } from "./storage";
+
+const KEY_PREFIX = 'awk_';
+const DISPLAY_LENGTH = 12;
+
+// Keys are 32 random bytes, so a plain SHA-256 is enough to store them and
+// lets a presented key be looked up by its hash
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateApiKey() {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_LENGTH), keyHash: hashApiKey(key) };
+}
+
+function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const { keyHash: _keyHash, ...publicApiKey } = apiKey;
+  return publicApiKey;
+}
+
+// Signs the request in as the key's owner when an `Authorization: Bearer`
+// header is present. A bad key is rejected outright rather than falling back
+// to the session, so scripts find out straight away.
+export const authenticateApiKey: RequestHandler = async (req, res, next) => {
+  const header = req.headers.authorization;
+  if (!header) return next();
+
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ error: 'Authorization header must be "Bearer <api key>"' });
+  }
+
+  try {
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(token));
+    const user = apiKey && !apiKey.revokedAt ? await storage.getUser(apiKey.userId) : undefined;
+    if (!apiKey || !user) {
+      return res.status(401).json({ error: 'Invalid or revoked API key' });
+    }
+
+    req.user = user;
+    req.apiKey = apiKey;
+    storage.touchApiKey(apiKey.id).catch((error) => {
+      console.error('Failed to record API key use:', error);
+    });
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export function setupApiKeys(app: Express) {
+  app.use('/api', authenticateApiKey);
+
+  app.get('/api/keys', requireSession, async (req, res) => {
+    try {
+      const keys = await storage.listApiKeys(req.user!.id);
+      res.json(keys.map(toPublicApiKey));
+    } catch (error) {
+      console.error('API key list error:', error);
+      res.status(500).json({ error: 'Failed to load API keys' });
+    }
+  });
+
+  // The plaintext key is only ever returned here
+  app.post('/api/keys', requireSession, async (req, res) => {
+    try {
+      const result = createApiKeySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      // A key can never do more than its owner
+      if (result.data.scopes.includes('admin') && req.user!.role !== 'admin') {
+        return res.status(403).json({ error: 'Only admins can create keys with the "admin" scope' });
+      }
+
+      const { key, prefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        userId: req.user!.id,
+        name: result.data.name,
+        prefix,
+        keyHash,
+        scopes: Array.from(new Set(result.data.scopes))
+      });
+
+      console.log('API key created:', { id: apiKey.id, userId: apiKey.userId, scopes: apiKey.scopes });
+      res.status(201).json({ ...toPublicApiKey(apiKey), key });
+    } catch (error) {
+      console.error('API key creation error:', error);
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+  });
+
+  app.delete('/api/keys/:id', requireSession, async (req, res) => {
+    try {
+      const owned = (await storage.listApiKeys(req.user!.id)).find((apiKey) => apiKey.id === req.params.id);
+      if (!owned) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      const apiKey = await storage.revokeApiKey(owned.id);
+      console.log('API key revoked:', { id: owned.id, userId: owned.userId });
+      res.json(toPublicApiKey(apiKey ?? owned));
+    } catch (error) {
+      console.error('API key revoke error:', error);
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  });
+}
@@ -0,0 +1,229 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import {
+  registerUserSchema,
+  type ApiKey,
+  type ApiKeyScope,
+  type PublicUser,
+  type User as SelectUser,
+  type UserRole
+} from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+    interface Request {
+      // Set when the request authenticated with an API key instead of a session
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Stored as `<hash>.<salt>` in the users.password column
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Users named in ADMIN_USERNAMES (comma separated) are made admins when they
+// register or sign in, so a fresh install has someone to grant the role to others
+function configuredRole(username: string): UserRole | undefined {
+  const admins = (process.env.ADMIN_USERNAMES || '').split(',').map((name) => name.trim());
+  return admins.includes(username) ? 'admin' : undefined;
+}
+
+// Never send the password hash to the client
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PostgresSessionStore = connectPg(session);
+    return new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  next();
+};
+
+// Sessions may do anything their user can; API keys only what their scopes allow
+export function requireScope(scope: ApiKeyScope): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+      return res.status(403).json({ error: `API key lacks the "${scope}" scope` });
+    }
+    next();
+  };
+}
+
+// Admin routes need an admin user, and an API key also needs the admin scope
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (req.user!.role !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  if (req.apiKey && !req.apiKey.scopes.includes('admin')) {
+    return res.status(403).json({ error: 'API key lacks the "admin" scope' });
+  }
+  next();
+};
+
+// For routes that manage credentials, so a leaked key cannot mint more keys
+export const requireSession: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated() || req.apiKey) {
+    return res.status(401).json({ error: 'Sign in to manage this' });
+  }
+  next();
+};
+
+// Which proxies may set X-Forwarded-For, and with it req.ip and the per-IP rate
+// limit. TRUST_PROXY takes a hop count, true/false or addresses as Express
+// understands them; unset, only Vercel's own proxy is trusted.
+function loadTrustProxy(): boolean | number | string {
+  const value = process.env.TRUST_PROXY;
+  if (!value) return process.env.VERCEL ? 1 : false;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is required in production');
+  }
+
+  app.set("trust proxy", loadTrustProxy());
+  app.use(session({
+    secret: secret || 'awake-dev-session-secret',
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: 7 * 24 * 60 * 60 * 1000
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        if (user.role !== 'admin' && configuredRole(user.username) === 'admin') {
+          return done(null, (await storage.updateUserRole(user.id, 'admin')) ?? false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+}
+
+// Mounted after API key authentication, so a script can check whose key it holds.
+// `rateLimit` throttles sign-up and sign-in attempts.
+export function setupAuthRoutes(app: Express, rateLimit: RequestHandler) {
+  app.post('/api/auth/register', rateLimit, async (req, res, next) => {
+    try {
+      const result = registerUserSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+
+      if (await storage.getUserByUsername(result.data.username)) {
+        return res.status(409).json({ error: 'Username already exists' });
+      }
+
+      const user = await storage.createUser({
+        username: result.data.username,
+        password: await hashPassword(result.data.password),
+        role: configuredRole(result.data.username)
+      });
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/auth/login', rateLimit, (req, res, next) => {
+    passport.authenticate('local', (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  app.get('/api/auth/me', requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+}
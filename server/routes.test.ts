@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import type { ChatResponse } from "@shared/types";
+import { registerRoutes, type RouteDependencies } from "./routes";
+import { OpenRouterService } from "./services/openrouter";
+import { AutomationExecutor } from "./services/automations";
+import { MemoryCacheBackend, ResponseCache } from "./services/responseCache";
+import { RateLimiter } from "./services/rateLimiter";
+import { MockProvider, ProviderError, type CompletionRequest, type MockResponder } from "./services/providers";
+
+// The default mock echoes the last user message, tagged with the provider's model id
+const echo: MockResponder = (request) => ({
+  content: `[${request.model}] ${request.messages[request.messages.length - 1].content}`,
+  toolCalls: [],
+});
+
+let server: Server | undefined;
+
+// Mounts the routes on a fresh app with the mock provider and signs up a user.
+// `answers` collects the chat calls; intent extraction (tool calls) is left out.
+async function startApp(responder: MockResponder = echo, deps: RouteDependencies = {}) {
+  const answers: CompletionRequest[] = [];
+  const provider = new MockProvider((request) => {
+    if (!request.tools) answers.push(request);
+    return responder(request);
+  });
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app, {
+    openRouterService: new OpenRouterService(provider),
+    automationExecutor: new AutomationExecutor({}, { dryRun: true }),
+    responseCache: new ResponseCache(new MemoryCacheBackend(10), {
+      backend: "memory",
+      ttlMs: 60_000,
+      maxEntries: 10,
+      maxEntryChars: 10_000,
+    }),
+    ...deps,
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  const registered = await fetch(`${url}/api/auth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: `user-${randomUUID()}`, password: "secret123" }),
+  });
+  expect(registered.status).toBe(201);
+  const cookie = registered.headers.getSetCookie()[0].split(";")[0];
+
+  const get = (path: string) => fetch(`${url}${path}`, { headers: { Cookie: cookie } });
+  const post = (path: string, body: unknown) =>
+    fetch(`${url}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Cookie: cookie },
+      body: JSON.stringify(body),
+    });
+  return { url, answers, get, post };
+}
+
+// Splits a text/event-stream body into its events
+async function readEvents(res: Response) {
+  const body = await res.text();
+  return body
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [event, data] = block.split("\n");
+      return { event: event.replace("event: ", ""), data: JSON.parse(data.replace("data: ", "")) };
+    });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  // fetch keeps idle connections open, which would hold up close
+  server?.closeAllConnections();
+  await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+  server = undefined;
+});
+
+describe("POST /api/chat", () => {
+  it("answers with the requested model and starts a conversation", async () => {
+    const { answers, post } = await startApp();
+
+    const res = await post("/api/chat", { message: "Hello there", model: "gpt" });
+    expect(res.status).toBe(200);
+    const body: ChatResponse = await res.json();
+    expect(body).toMatchObject({ content: "[openai/gpt-4o] Hello there", model: "gpt", automations: [] });
+    expect(body.conversationId).toBeTruthy();
+    expect(body.usage?.totalTokens).toBeGreaterThan(0);
+    expect(answers).toHaveLength(1);
+  });
+
+  it("rejects a missing message", async () => {
+    const { post } = await startApp();
+    const res = await post("/api/chat", { message: " ", model: "gpt" });
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects a message that is not a string", async () => {
+    const { answers, post } = await startApp();
+    const res = await post("/api/chat", { message: 5, model: "gpt" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("message");
+    expect(answers).toHaveLength(0);
+  });
+
+  it("fails over to the next model when the requested one is down", async () => {
+    const { answers, post } = await startApp((request) => {
+      if (request.model === "openai/gpt-4o") throw new ProviderError("upstream unavailable", 502);
+      return echo(request);
+    });
+
+    const body: ChatResponse = await (await post("/api/chat", { message: "Hello", model: "gpt" })).json();
+    expect(body.model).toBe("claude");
+    expect(body.content).toBe("[anthropic/claude-3.5-sonnet] Hello");
+    expect(body.failover).toEqual([expect.objectContaining({ model: "gpt", error: "upstream unavailable" })]);
+    expect(answers.map((request) => request.model)).toEqual(["openai/gpt-4o", "anthropic/claude-3.5-sonnet"]);
+  });
+
+  it("does not fail over when the request itself is at fault", async () => {
+    const { answers, post } = await startApp((request) => {
+      if (request.model === "openai/gpt-4o") throw new ProviderError("context length exceeded", 400);
+      return echo(request);
+    });
+
+    const res = await post("/api/chat", { message: "Hello", model: "gpt" });
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toContain("context length exceeded");
+    expect(answers).toHaveLength(1);
+  });
+
+  it("serves a repeated prompt from the cache unless asked to bypass it", async () => {
+    const { answers, post } = await startApp();
+
+    const first: ChatResponse = await (await post("/api/chat", { message: "Cache me", model: "gpt" })).json();
+    expect(first.cached).toBeUndefined();
+
+    const second: ChatResponse = await (await post("/api/chat", { message: "Cache  me ", model: "gpt" })).json();
+    expect(second).toMatchObject({ content: first.content, model: "gpt", cached: true });
+    expect(second.usage).toBeUndefined();
+    expect(answers).toHaveLength(1);
+
+    const fresh: ChatResponse = await (await post("/api/chat", { message: "Cache me", model: "gpt", bypassCache: true })).json();
+    expect(fresh.cached).toBeUndefined();
+    expect(answers).toHaveLength(2);
+
+    // Another model is another cache entry
+    await post("/api/chat", { message: "Cache me", model: "claude" });
+    expect(answers).toHaveLength(3);
+  });
+});
+
+describe("POST /api/chat/stream", () => {
+  it("streams the answer as start, token and done events", async () => {
+    const { post } = await startApp();
+
+    const res = await post("/api/chat/stream", { message: "Stream this please", model: "gpt" });
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    const events = await readEvents(res);
+
+    expect(events[0]).toMatchObject({ event: "start", data: { model: "gpt" } });
+    const tokens = events.filter(({ event }) => event === "token").map(({ data }) => data.content);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe("[openai/gpt-4o] Stream this please");
+    const done = events[events.length - 1];
+    expect(done).toMatchObject({ event: "done", data: { content: tokens.join(""), model: "gpt" } });
+    expect(done.data.conversationId).toBe(events[0].data.conversationId);
+  });
+
+  it("fails over before the stream starts", async () => {
+    const { post } = await startApp((request) => {
+      if (request.model === "openai/gpt-4o") throw new ProviderError("rate limited", 429);
+      return echo(request);
+    });
+
+    const events = await readEvents(await post("/api/chat/stream", { message: "Hello", model: "gpt" }));
+    expect(events[0].data).toMatchObject({
+      model: "claude",
+      failover: [expect.objectContaining({ model: "gpt", error: "rate limited" })],
+    });
+    expect(events[events.length - 1].data.content).toBe("[anthropic/claude-3.5-sonnet] Hello");
+  });
+
+  it("shares the cache with /api/chat", async () => {
+    const { answers, post } = await startApp();
+
+    const streamed = await readEvents(await post("/api/chat/stream", { message: "Shared", model: "gpt" }));
+    const body: ChatResponse = await (await post("/api/chat", { message: "Shared", model: "gpt" })).json();
+    expect(body).toMatchObject({ content: streamed[streamed.length - 1].data.content, cached: true });
+
+    const replayed = await readEvents(await post("/api/chat/stream", { message: "Shared", model: "gpt" }));
+    expect(replayed.map(({ event }) => event)).toEqual(["start", "token", "done"]);
+    expect(replayed[2].data).toMatchObject({ content: body.content, cached: true });
+    expect(answers).toHaveLength(1);
+  });
+
+  it("rejects a message that is not a string", async () => {
+    const { post } = await startApp();
+    const res = await post("/api/chat/stream", { message: 5, model: "gpt" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("message");
+  });
+
+  it("refuses compare mode", async () => {
+    const { post } = await startApp();
+    const res = await post("/api/chat/stream", { message: "Hello", models: ["gpt", "claude"] });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("GET /api/conversations/:id", () => {
+  it("returns the stored automations with the answer that proposed them", async () => {
+    const { get, post } = await startApp((request) =>
+      request.tools
+        ? {
+            content: "",
+            toolCalls: [{ name: "email", arguments: JSON.stringify({ to: "team@example.com", subject: "Standup", body: "10am" }) }],
+          }
+        : echo(request),
+    );
+
+    const first: ChatResponse = await (await post("/api/chat", { message: "Email the team", model: "gpt" })).json();
+    const second: ChatResponse = await (
+      await post("/api/chat", { message: "And again", model: "gpt", conversationId: first.conversationId })
+    ).json();
+    expect(first.automations).toHaveLength(1);
+
+    const res = await get(`/api/conversations/${first.conversationId}`);
+    expect(res.status).toBe(200);
+    const { messages, automations } = await res.json();
+    const answers = messages.filter((message: { role: string }) => message.role === "assistant");
+    expect(automations).toEqual([
+      { ...first.automations[0], messageId: answers[0].id },
+      { ...second.automations[0], messageId: answers[1].id },
+    ]);
+  });
+});
+
+describe("API keys", () => {
+  it("sign a script in as the key's owner, including on /api/auth/me", async () => {
+    const { url, post } = await startApp();
+
+    const created = await post("/api/keys", { name: "script", scopes: ["chat"] });
+    expect(created.status).toBe(201);
+    const { key, userId } = await created.json();
+
+    const res = await fetch(`${url}/api/auth/me`, { headers: { Authorization: `Bearer ${key}` } });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: userId });
+
+    const unknown = await fetch(`${url}/api/auth/me`, { headers: { Authorization: "Bearer awk_unknown" } });
+    expect(unknown.status).toBe(401);
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  it("throttles attempts per IP, whatever X-Forwarded-For claims", async () => {
+    const bucket = { capacity: 3, refillPerMinute: 3 };
+    const { url } = await startApp(echo, {
+      rateLimiter: new RateLimiter({ ip: bucket, user: bucket, apiKey: bucket }),
+    });
+
+    // Signing up in startApp took the first token
+    const attempt = (n: number) =>
+      fetch(`${url}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Forwarded-For": `203.0.113.${n}` },
+        body: JSON.stringify({ username: "nobody", password: `guess-${n}` }),
+      });
+    expect((await attempt(1)).status).toBe(401);
+    expect((await attempt(2)).status).toBe(401);
+    const limited = await attempt(3);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toBeTruthy();
+  });
+});
@@ -1,30 +1,87 @@
-import type { Express } from "express";
+import type { Express, RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { OpenRouterService } from "./services/openrouter";
-import type { ChatRequest, ChatResponse, AutomationAction } from "@shared/types";
+import {
+  createPersonaSchema,
+  updateConversationSchema,
+  updatePersonaSchema,
+  type Conversation,
+  type Message,
+  type Persona,
+  type UsagePurpose,
+  type User
+} from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import { requireAdmin, requireAuth, requireScope, setupAuth, setupAuthRoutes } from "./auth";
+import { setupApiKeys } from "./apiKeys";
+import { setupAdmin } from "./admin";
+import {
+  ModelCallError,
+  OpenRouterService,
+  openRouterService as defaultOpenRouterService
+} from "./services/openrouter";
+import { AutomationExecutor, createAutomationExecutor, matchAutomationKeywords } from "./services/automations";
+import { RateLimiter, loadRateLimitOptions } from "./services/rateLimiter";
+import { QuotaService, loadQuotaLimits } from "./services/quota";
+import {
+  ResponseCache,
+  createResponseCache,
+  loadResponseCacheOptions,
+  type CachedAnswer
+} from "./services/responseCache";
+import {
+  chatRequestSchema,
+  type ChatResponse,
+  type ChatTurn,
+  type AutomationAction,
+  type AutomationIntent,
+  type MessageRole,
+  type MetricsReport,
+  type ModelCatalogResponse,
+  type TokenUsage,
+  type GenerationParams,
+  type HealthReport,
+  type UsageReport
+} from "@shared/types";
 import { randomUUID } from "crypto";
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  let openRouterService: OpenRouterService;
-  
-  try {
-    openRouterService = new OpenRouterService();
-    console.log('✅ OpenRouter service initialized successfully');
-  } catch (error) {
-    console.error('❌ Failed to initialize OpenRouter service:', error);
-    // Create a fallback service that returns error messages
-    openRouterService = {
-      chat: async (message: string, model: string) => {
-        console.log('Using fallback service for message:', message);
-        return {
-          content: `Service temporarily unavailable. Please check your API configuration. Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          modelUsed: 'fallback'
-        };
-      }
-    } as any;
-    console.log('⚠️ Using fallback OpenRouter service');
-  }
+export interface RouteDependencies {
+  openRouterService?: OpenRouterService;
+  automationExecutor?: AutomationExecutor;
+  rateLimiter?: RateLimiter;
+  quotaService?: QuotaService;
+  responseCache?: ResponseCache;
+}
+
+export async function registerRoutes(app: Express, deps: RouteDependencies = {}): Promise<Server> {
+  const automationExecutor = deps.automationExecutor ?? createAutomationExecutor();
+  const openRouterService = deps.openRouterService ?? defaultOpenRouterService;
+  const rateLimiter = deps.rateLimiter ?? new RateLimiter(loadRateLimitOptions());
+  const quotaService = deps.quotaService ?? new QuotaService(storage, loadQuotaLimits());
+  // Off unless RESPONSE_CACHE is set
+  const responseCache = deps.responseCache ?? createResponseCache(storage, loadResponseCacheOptions());
+
+  // Helper middleware: token buckets per IP plus per user or per API key
+  const rateLimit: RequestHandler = (req, res, next) => {
+    const result = rateLimiter.check({
+      ip: req.ip,
+      userId: req.user?.id,
+      apiKeyId: req.apiKey?.id
+    });
+    if (!result.allowed) {
+      console.warn('Rate limit hit:', { scope: result.scope, userId: req.user?.id, ip: req.ip });
+      res.set('Retry-After', String(result.retryAfter));
+      return res.status(429).json({ error: 'Too many requests, please slow down', retryAfter: result.retryAfter });
+    }
+    next();
+  };
+
+  // Sessions, API keys and their routes must be in place before anything protected;
+  // sign-in and sign-up share the per-IP bucket so passwords cannot be guessed at speed
+  setupAuth(app);
+  setupApiKeys(app);
+  setupAuthRoutes(app, rateLimit);
+  setupAdmin(app, openRouterService.catalog);
 
   // Global error handler for unhandled promise rejections
   process.on('unhandledRejection', (reason, promise) => {
@@ -35,46 +92,247 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error('Uncaught Exception:', error);
   });
 
-  // Helper function to detect automation keywords and generate actions
-  function detectAutomations(message: string): AutomationAction[] {
-    const automations: AutomationAction[] = [];
-    const lowerMessage = message.toLowerCase();
+  // Helper function to extract requested automations, falling back to
+  // keyword matching when the model is unreachable
+  async function detectAutomations(
+    user: User,
+    conversationId: string,
+    message: string,
+    content: string
+  ): Promise<AutomationAction[]> {
+    let intents: AutomationIntent[];
+    try {
+      const { intents: extracted, model, usage, latencyMs } = await openRouterService.extractIntents(message, content, user);
+      intents = extracted;
+      await recordUsage(user.id, conversationId, [{ model, purpose: 'intent', usage, latencyMs }]);
+    } catch (error) {
+      console.warn('Intent extraction unavailable, falling back to keyword matching:', error);
+      intents = matchAutomationKeywords(message, content);
+    }
+    return intents.map((intent) => automationExecutor.createAction(intent, conversationId));
+  }
+
+  // Helper to store detected automations as proposals awaiting confirmation,
+  // linked to the stored answer so a reopened conversation shows them again
+  async function proposeAutomations(
+    user: User,
+    conversationId: string,
+    message: string,
+    answer: Message | undefined,
+    content: string
+  ): Promise<AutomationAction[]> {
+    const proposals = await detectAutomations(user, conversationId, message, content);
+    return Promise.all(
+      proposals.map((action) => storage.createAutomation(answer ? { ...action, messageId: answer.id } : action))
+    );
+  }
 
-    if (lowerMessage.includes('email')) {
-      automations.push({
-        type: 'email',
-        message: 'Action simulated: Email sent!',
-        icon: '📧'
-      });
+  // Helper to load one of the user's conversations; other users' conversations
+  // are reported as missing
+  async function getOwnedConversation(userId: string, conversationId: string) {
+    const conversation = await storage.getConversation(conversationId);
+    return conversation?.userId === userId ? conversation : undefined;
+  }
+
+  // Helper to title a conversation after its first prompt: the first line,
+  // cut at a word boundary so the sidebar shows whole words
+  function titleFromPrompt(message: string): string {
+    const line = message.trim().split('\n')[0].replace(/\s+/g, ' ');
+    if (line.length <= 60) return line;
+    const cut = line.slice(0, 60);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > 30 ? cut.slice(0, lastSpace) : cut}…`;
+  }
+
+  // Helper to load an existing conversation, or start one titled after the first prompt
+  async function resolveConversation(userId: string, message: string, conversationId?: string) {
+    if (conversationId) {
+      return getOwnedConversation(userId, conversationId);
     }
+    return storage.createConversation({ userId, title: titleFromPrompt(message) });
+  }
 
-    if (lowerMessage.includes('task')) {
-      automations.push({
-        type: 'task', 
-        message: 'Action simulated: Jira task created!',
-        icon: '✅'
-      });
+  // Helper to load an automation that belongs to one of the user's conversations
+  async function getOwnedAutomation(userId: string, automationId: string) {
+    const action = await storage.getAutomation(automationId);
+    if (!action || !(await getOwnedConversation(userId, action.conversationId))) {
+      return undefined;
     }
+    return action;
+  }
 
-    if (lowerMessage.includes('slack')) {
-      automations.push({
-        type: 'slack',
-        message: 'Action simulated: Slack message posted!',
-        icon: '💬'
-      });
+  // Helper to explain why a claim on an automation failed, from its current status
+  async function alreadyHandled(action: AutomationAction): Promise<string> {
+    const current = await storage.getAutomation(action.id);
+    return `Automation is already ${current?.status ?? action.status}`;
+  }
+
+  // Helper to load one of the user's personas; other users' personas are
+  // reported as missing
+  async function getOwnedPersona(userId: string, personaId: string) {
+    const persona = await storage.getPersona(personaId);
+    return persona?.userId === userId ? persona : undefined;
+  }
+
+  // Helper to check a persona's default model against the catalog and the
+  // user's model restrictions; unset is fine
+  function isPersonaModel(user: User, model: string | null | undefined): boolean {
+    return model == null
+      || (openRouterService.catalog.isSupported(model) && !modelAccessError(user, [model]));
+  }
+
+  // Helper to explain why the user may not call these models, if they may not.
+  // `auto` (and fusion over every model) needs at least one model they may use.
+  function modelAccessError(user: User, models: string[]): string | undefined {
+    for (const model of models) {
+      if (model === 'auto') {
+        if (openRouterService.catalog.aliasesFor(user).length === 0) return 'No models are available to you';
+      } else if (!openRouterService.catalog.allows(model, user)) {
+        return `You do not have access to ${model}`;
+      }
     }
+    return undefined;
+  }
+
+  // Helper to merge the request's sampling settings over the persona's defaults
+  function resolveGeneration(params: GenerationParams, persona?: Persona): GenerationParams {
+    return {
+      temperature: persona?.temperature ?? undefined,
+      maxTokens: persona?.maxTokens ?? undefined,
+      ...params
+    };
+  }
+
+  // Helper to replay prior turns so the model sees the whole conversation,
+  // behind the persona's system prompt when one is selected
+  async function buildTurns(conversationId: string, message: string, persona?: Persona): Promise<ChatTurn[]> {
+    const history = await storage.getMessages(conversationId);
+    const turns: ChatTurn[] = history.map((entry) => ({
+      role: entry.role as MessageRole,
+      content: entry.content
+    }));
+    if (persona) {
+      turns.unshift({ role: 'system', content: persona.systemPrompt });
+    }
+    turns.push({ role: 'user', content: message });
+    return turns;
+  }
+
+  // Helper to key the response cache on the provider's model id, so an alias
+  // an admin points elsewhere starts afresh; undefined while caching is off
+  function responseCacheKey(turns: ChatTurn[], model: string, generation: GenerationParams): string | undefined {
+    return responseCache?.key(turns, openRouterService.catalog.get(model)?.id ?? model, generation);
+  }
+
+  // Helper to find a cached answer the user may still see: the model that gave
+  // it must still be offered to them
+  async function findCachedAnswer(user: User, key: string | undefined, bypass: unknown): Promise<CachedAnswer | undefined> {
+    if (!responseCache || !key || bypass === true) return undefined;
+    const cached = await responseCache.get(key);
+    if (!cached || !openRouterService.catalog.has(cached.model) || !openRouterService.catalog.allows(cached.model, user)) {
+      return undefined;
+    }
+    return cached;
+  }
+
+  // Helper middleware: refuse model calls once today's token or cost allowance is spent
+  const enforceQuota: RequestHandler = async (req, res, next) => {
+    try {
+      const status = await quotaService.status(req.user!.id);
+      if (quotaService.isExceeded(status)) {
+        const retryAfter = Math.max(1, Math.ceil((Date.parse(status.resetsAt) - Date.now()) / 1000));
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({ error: 'Daily quota exceeded', retryAfter, quota: status });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Helper to store each model call's tokens and cost and add them to the
+  // user's daily totals; a failure here must not lose the answer
+  async function recordUsage(
+    userId: string,
+    conversationId: string | null,
+    calls: Array<{ model: string; purpose?: UsagePurpose; usage?: TokenUsage; latencyMs?: number; error?: string }>
+  ) {
+    try {
+      let tokens = 0;
+      let costUsd = 0;
+      for (const { model, purpose, usage, latencyMs, error } of calls) {
+        const cost = openRouterService.catalog.estimateCostUsd(model, usage);
+        await storage.createUsageRecord({
+          userId,
+          conversationId,
+          model,
+          purpose,
+          promptTokens: usage?.promptTokens ?? 0,
+          completionTokens: usage?.completionTokens ?? 0,
+          totalTokens: usage?.totalTokens ?? 0,
+          costUsd: cost,
+          latencyMs,
+          error
+        });
+        tokens += usage?.totalTokens ?? 0;
+        costUsd += cost;
+      }
+      await quotaService.record(userId, tokens, costUsd);
+    } catch (error) {
+      console.error('Failed to record usage:', error);
+    }
+  }
+
+  // Helper to count a failed model call, and any models failed over from
+  // before it, towards each model's error rate
+  async function recordFailedCall(userId: string, conversationId: string | null, error: unknown) {
+    if (error instanceof ModelCallError) {
+      await recordUsage(userId, conversationId, [
+        ...error.failover,
+        { model: error.model, latencyMs: error.latencyMs, error: error.message }
+      ]);
+    }
+  }
+
+  // Helper to read inclusive `from`/`to` YYYY-MM-DD query dates, defaulting to the last 30 days
+  function parseDateRange(query: Record<string, unknown>):
+    { from: string; to: string; start: Date; end: Date } | { error: string } {
+    const day = 24 * 60 * 60 * 1000;
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    const to = typeof query.to === 'string' ? query.to : new Date().toISOString().slice(0, 10);
+    const from = typeof query.from === 'string'
+      ? query.from
+      : new Date(Date.parse(to) - 29 * day).toISOString().slice(0, 10);
+
+    if (!datePattern.test(from) || !datePattern.test(to) || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+      return { error: 'from and to must be YYYY-MM-DD dates' };
+    }
+    if (from > to) {
+      return { error: 'from must not be after to' };
+    }
+    return { from, to, start: new Date(from), end: new Date(Date.parse(to) + day) };
+  }
 
-    return automations;
+  // Helper to approximate usage for streams that ended without a usage chunk
+  function estimateStreamUsage(model: string, turns: ChatTurn[], content: string): TokenUsage {
+    const promptTokens = Math.ceil(turns.reduce((sum, turn) => sum + turn.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    const usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    return { ...usage, costUsd: openRouterService.catalog.estimateCostUsd(model, usage) };
   }
 
-  // Add basic endpoints first to ensure they work
+  // Add basic endpoints first to ensure they work; `models` carries each
+  // model's circuit state and recent success rate and latency
   app.get('/api/health', (req, res) => {
     try {
-      const healthStatus = {
+      const healthStatus: HealthReport = {
         status: 'ok',
         timestamp: new Date().toISOString(),
         environment: process.env.NODE_ENV || 'unknown',
-        openRouterAvailable: openRouterService && typeof openRouterService.chat === 'function',
+        vercel: process.env.VERCEL ? 'yes' : 'no',
+        provider: openRouterService.providerName,
+        openRouterAvailable: openRouterService.isAvailable,
+        models: openRouterService.modelHealth(),
         uptime: process.uptime()
       };
       res.json(healthStatus);
@@ -88,6 +346,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The models the picker offers the user, with context length and price per million tokens
+  app.get('/api/models', requireAuth, async (req, res) => {
+    try {
+      const catalog: ModelCatalogResponse = await openRouterService.catalog.describe(req.user!);
+      res.json(catalog);
+    } catch (error) {
+      console.error('Model catalog API error:', error);
+      res.status(500).json({ error: 'Failed to load models' });
+    }
+  });
+
   // Simple test endpoint
   app.get('/api/test', (req, res) => {
     res.json({ 
@@ -98,41 +367,173 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Chat endpoint with error handling
-  app.post('/api/chat', async (req, res) => {
+  app.post('/api/chat', requireScope('chat'), rateLimit, enforceQuota, async (req, res) => {
+    let conversation: Conversation | undefined;
     try {
       console.log('Chat request received:', { 
         body: req.body, 
-        headers: req.headers,
+        userId: req.user!.id,
         timestamp: new Date().toISOString()
       });
 
-      const { message, model }: ChatRequest = req.body;
+      const request = chatRequestSchema.safeParse(req.body);
+      if (!request.success) {
+        return res.status(400).json({ error: fromZodError(request.error).message });
+      }
+      const { message, model, conversationId, models, fusion, personaId, bypassCache, ...params } = request.data;
 
-      if (!message || !message.trim()) {
-        return res.status(400).json({ error: 'Message is required' });
+      const persona = personaId ? await getOwnedPersona(req.user!.id, personaId) : undefined;
+      if (personaId && !persona) {
+        return res.status(404).json({ error: 'Persona not found' });
       }
+      const requestedModel = model ?? persona?.defaultModel ?? undefined;
+      const generation = resolveGeneration(params, persona);
 
-      if (!model || !['auto', 'gpt', 'claude', 'llama'].includes(model)) {
+      if (models !== undefined) {
+        if (!Array.isArray(models) || models.length < 2 || new Set(models).size !== models.length
+          || !models.every((candidate) => openRouterService.catalog.has(candidate))) {
+          return res.status(400).json({ error: 'Compare and fusion modes need at least two distinct models' });
+        }
+      } else if (!fusion && !openRouterService.catalog.isSupported(requestedModel)) {
         return res.status(400).json({ error: 'Valid model selection is required' });
       }
+      const accessError = modelAccessError(req.user!, models ?? [fusion ? 'auto' : requestedModel!]);
+      if (accessError) {
+        return res.status(403).json({ error: accessError });
+      }
+
+      conversation = await resolveConversation(req.user!.id, message, conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      console.log('Processing chat request:', {
+        message,
+        model: requestedModel,
+        models,
+        persona: persona?.name,
+        conversationId: conversation.id
+      });
+
+      const turns = await buildTurns(conversation.id, message, persona);
+
+      if (fusion) {
+        const { content, usage, failover, fusion: fusionResult } = await openRouterService.fuse(turns, models, generation, req.user!);
+
+        await storage.appendMessage({ conversationId: conversation.id, role: 'user', content: message });
+        await storage.appendMessage({ conversationId: conversation.id, role: 'assistant', content, model: 'fusion' });
+        await recordUsage(req.user!.id, conversation.id, [
+          ...fusionResult.drafts,
+          ...(failover ?? []),
+          {
+            model: fusionResult.synthesizer,
+            usage: fusionResult.synthesisUsage,
+            latencyMs: fusionResult.synthesisLatencyMs
+          }
+        ]);
+
+        const response: ChatResponse = {
+          id: randomUUID(),
+          conversationId: conversation.id,
+          content,
+          model: 'fusion',
+          automations: [],
+          usage,
+          fusion: fusionResult,
+          failover
+        };
+
+        console.log('Fusion response generated:', {
+          synthesizer: fusionResult.synthesizer,
+          citedModels: fusionResult.citedModels,
+          failover: failover?.map(({ model, error }) => ({ model, error })),
+          drafts: fusionResult.drafts.map(({ model, latencyMs, error }) => ({ model, latencyMs, error }))
+        });
+        return res.json(response);
+      }
+
+      if (models) {
+        const comparisons = await openRouterService.compare(turns, models, generation);
 
-      console.log('Processing chat request:', { message, model });
+        // Follow-up turns continue from the first model that answered
+        const primary = comparisons.find((answer) => !answer.error);
+        if (!primary) {
+          throw new Error(`All models failed: ${comparisons.map((answer) => `${answer.model}: ${answer.error}`).join('; ')}`);
+        }
+
+        await storage.appendMessage({ conversationId: conversation.id, role: 'user', content: message });
+        await storage.appendMessage({ conversationId: conversation.id, role: 'assistant', content: primary.content, model: primary.model });
+        await recordUsage(req.user!.id, conversation.id, comparisons);
+
+        const response: ChatResponse = {
+          id: randomUUID(),
+          conversationId: conversation.id,
+          content: primary.content,
+          model: primary.model,
+          automations: [],
+          usage: primary.usage,
+          comparisons
+        };
+
+        console.log('Compare response generated:', comparisons.map(({ model, latencyMs, error }) => ({ model, latencyMs, error })));
+        return res.json(response);
+      }
+
+      // Compare and fusion answers are not cached
+      const cacheKey = responseCacheKey(turns, requestedModel!, generation);
+      const cached = await findCachedAnswer(req.user!, cacheKey, bypassCache);
+      if (cached) {
+        await storage.appendMessage({ conversationId: conversation.id, role: 'user', content: message });
+        const answer = await storage.appendMessage({ conversationId: conversation.id, role: 'assistant', content: cached.content, model: cached.model });
+        const automations = await proposeAutomations(req.user!, conversation.id, message, answer, cached.content);
+
+        const response: ChatResponse = {
+          id: randomUUID(),
+          conversationId: conversation.id,
+          content: cached.content,
+          model: cached.model,
+          automations,
+          cached: true
+        };
+
+        console.log('Chat response served from cache:', { model: cached.model, automationsCount: automations.length });
+        return res.json(response);
+      }
 
       // Get AI response from OpenRouter
-      const { content, modelUsed } = await openRouterService.chat(message, model);
-      
-      // Detect automations based on user input
-      const automations = detectAutomations(message);
+      const { content, modelUsed, routing, usage, latencyMs, failover } = await openRouterService.chat(
+        turns,
+        requestedModel!,
+        undefined,
+        generation,
+        req.user!
+      );
+
+      await storage.appendMessage({ conversationId: conversation.id, role: 'user', content: message });
+      const answer = await storage.appendMessage({ conversationId: conversation.id, role: 'assistant', content, model: modelUsed });
+      await recordUsage(req.user!.id, conversation.id, [...(failover ?? []), { model: modelUsed, usage, latencyMs }]);
+      if (cacheKey) {
+        await responseCache!.set(cacheKey, { content, model: modelUsed });
+      }
+
+      // Detect automations based on user input; they wait for confirmation
+      const automations = await proposeAutomations(req.user!, conversation.id, message, answer, content);
 
       const response: ChatResponse = {
         id: randomUUID(),
+        conversationId: conversation.id,
         content,
         model: modelUsed,
-        automations
+        automations,
+        routing,
+        usage,
+        failover
       };
 
       console.log('Chat response generated:', { 
         modelUsed, 
+        routing: routing?.reason,
+        failover: failover?.map(({ model, error }) => ({ model, error })),
         contentLength: content.length,
         automationsCount: automations.length
       });
@@ -140,6 +541,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(response);
     } catch (error) {
       console.error('Chat API error:', error);
+      await recordFailedCall(req.user!.id, conversation?.id ?? null, error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to process chat request';
       res.status(500).json({ 
         error: errorMessage,
@@ -148,6 +550,429 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Streaming chat endpoint: proxies OpenRouter tokens to the client as Server-Sent Events
+  app.post('/api/chat/stream', requireScope('chat'), rateLimit, enforceQuota, async (req, res) => {
+    // Abort the upstream request when the client disconnects or cancels
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let content = '';
+    let conversation: Conversation | undefined;
+
+    try {
+      const request = chatRequestSchema.safeParse(req.body);
+      if (!request.success) {
+        return res.status(400).json({ error: fromZodError(request.error).message });
+      }
+      const { message, model, conversationId, models, fusion, personaId, bypassCache, ...params } = request.data;
+
+      if (models !== undefined || fusion) {
+        return res.status(400).json({ error: 'Compare and fusion modes are only available on /api/chat' });
+      }
+
+      const persona = personaId ? await getOwnedPersona(req.user!.id, personaId) : undefined;
+      if (personaId && !persona) {
+        return res.status(404).json({ error: 'Persona not found' });
+      }
+
+      const requestedModel = model ?? persona?.defaultModel ?? undefined;
+      if (!openRouterService.catalog.isSupported(requestedModel)) {
+        return res.status(400).json({ error: 'Valid model selection is required' });
+      }
+      const accessError = modelAccessError(req.user!, [requestedModel]);
+      if (accessError) {
+        return res.status(403).json({ error: accessError });
+      }
+
+      conversation = await resolveConversation(req.user!.id, message, conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      console.log('Processing streaming chat request:', {
+        message,
+        model: requestedModel,
+        persona: persona?.name,
+        conversationId: conversation.id
+      });
+
+      const turns = await buildTurns(conversation.id, message, persona);
+      const generation = resolveGeneration(params, persona);
+      const cacheKey = responseCacheKey(turns, requestedModel, generation);
+      const cached = await findCachedAnswer(req.user!, cacheKey, bypassCache);
+      if (cached) {
+        // Replayed as a single token so clients need nothing special for a hit
+        content = cached.content;
+        await storage.appendMessage({ conversationId: conversation.id, role: 'user', content: message });
+        const answer = await storage.appendMessage({ conversationId: conversation.id, role: 'assistant', content, model: cached.model });
+        const automations = await proposeAutomations(req.user!, conversation.id, message, answer, content);
+        const response: ChatResponse = {
+          id: randomUUID(),
+          conversationId: conversation.id,
+          content,
+          model: cached.model,
+          automations,
+          cached: true
+        };
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive'
+        });
+        sendEvent('start', { id: response.id, conversationId: conversation.id, model: cached.model, cached: true });
+        sendEvent('token', { content });
+        console.log('Streaming chat response served from cache:', { model: cached.model, automationsCount: automations.length });
+        sendEvent('done', response);
+        return res.end();
+      }
+
+      const startedAt = Date.now();
+      const {
+        modelUsed,
+        tokens,
+        routing,
+        failover,
+        usage: streamUsage
+      } = await openRouterService.chatStream(
+        turns,
+        requestedModel,
+        controller.signal,
+        generation,
+        req.user!
+      );
+      let usage: TokenUsage | undefined;
+      let answer: Message | undefined;
+      const id = randomUUID();
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+      sendEvent('start', { id, conversationId: conversation.id, model: modelUsed, routing, failover });
+
+      try {
+        for await (const token of tokens) {
+          content += token;
+          sendEvent('token', { content: token });
+        }
+      } finally {
+        // Keep whatever was generated, even if the client cancelled mid-stream;
+        // a stream cancelled before its first token leaves no empty turn behind
+        if (content) {
+          await storage.appendMessage({ conversationId: conversation.id, role: 'user', content: message });
+          answer = await storage.appendMessage({ conversationId: conversation.id, role: 'assistant', content, model: modelUsed });
+        }
+        // Cancelled streams and servers without stream usage get an estimate of ~4 characters per token
+        usage = streamUsage() ?? estimateStreamUsage(modelUsed, turns, content);
+        await recordUsage(req.user!.id, conversation.id, [
+          ...(failover ?? []),
+          { model: modelUsed, usage, latencyMs: Date.now() - startedAt }
+        ]);
+      }
+      // A provider may end the stream quietly on abort; the partial answer is
+      // kept above but not cached, scanned for automations or sent to a closed socket
+      if (controller.signal.aborted) {
+        console.log('Streaming chat request cancelled by client:', { contentLength: content.length });
+        return;
+      }
+
+      // Only a stream that ran to the end is worth caching
+      if (cacheKey) {
+        await responseCache!.set(cacheKey, { content, model: modelUsed });
+      }
+
+      const automations = await proposeAutomations(req.user!, conversation.id, message, answer, content);
+      const response: ChatResponse = {
+        id,
+        conversationId: conversation.id,
+        content,
+        model: modelUsed,
+        automations,
+        routing,
+        usage,
+        failover
+      };
+
+      console.log('Streaming chat response completed:', {
+        modelUsed,
+        routing: routing?.reason,
+        failover: failover?.map(({ model, error }) => ({ model, error })),
+        contentLength: content.length,
+        automationsCount: automations.length
+      });
+
+      sendEvent('done', response);
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('Streaming chat request cancelled by client:', { contentLength: content.length });
+        return;
+      }
+
+      console.error('Streaming chat API error:', error);
+      await recordFailedCall(req.user!.id, conversation?.id ?? null, error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to process chat request';
+      if (!res.headersSent) {
+        return res.status(500).json({ error: errorMessage });
+      }
+      sendEvent('error', { error: errorMessage });
+      res.end();
+    }
+  });
+
+  // Run a proposed automation after a person has approved it
+  app.post('/api/automations/:id/confirm', requireScope('automations'), rateLimit, async (req, res) => {
+    try {
+      const action = await getOwnedAutomation(req.user!.id, req.params.id);
+      if (!action) {
+        return res.status(404).json({ error: 'Automation not found' });
+      }
+
+      // Claimed atomically, so two confirms racing each other cannot both run it
+      const claimed = await storage.claimAutomation(action.id, 'pending');
+      if (!claimed) {
+        return res.status(409).json({ error: await alreadyHandled(action) });
+      }
+
+      const result = await storage.updateAutomation(await automationExecutor.execute(claimed));
+
+      console.log('Automation confirmed:', { id: result.id, type: result.type, status: result.status });
+      res.json(result);
+    } catch (error) {
+      console.error('Automation confirm error:', error);
+      res.status(500).json({ error: 'Failed to run automation' });
+    }
+  });
+
+  // Discard a proposed automation without running it
+  app.post('/api/automations/:id/reject', requireScope('automations'), rateLimit, async (req, res) => {
+    try {
+      const action = await getOwnedAutomation(req.user!.id, req.params.id);
+      if (!action) {
+        return res.status(404).json({ error: 'Automation not found' });
+      }
+
+      const claimed = await storage.claimAutomation(action.id, 'rejected');
+      if (!claimed) {
+        return res.status(409).json({ error: await alreadyHandled(action) });
+      }
+
+      const result = await storage.updateAutomation({ ...claimed, message: `Rejected: ${claimed.message}` });
+
+      console.log('Automation rejected:', { id: result.id, type: result.type });
+      res.json(result);
+    } catch (error) {
+      console.error('Automation reject error:', error);
+      res.status(500).json({ error: 'Failed to reject automation' });
+    }
+  });
+
+  // Today's token and cost spend against the caller's daily quota
+  app.get('/api/quota', requireAuth, async (req, res) => {
+    try {
+      res.json(await quotaService.status(req.user!.id));
+    } catch (error) {
+      console.error('Quota API error:', error);
+      res.status(500).json({ error: 'Failed to load quota' });
+    }
+  });
+
+  // Tokens and cost per UTC day and model; `from` and `to` are inclusive
+  // YYYY-MM-DD dates and default to the last 30 days
+  app.get('/api/usage', requireAuth, async (req, res) => {
+    try {
+      const range = parseDateRange(req.query);
+      if ('error' in range) {
+        return res.status(400).json({ error: range.error });
+      }
+
+      const byDay = await storage.summarizeUsage(req.user!.id, range.start, range.end);
+      const report: UsageReport = {
+        from: range.from,
+        to: range.to,
+        totals: byDay.reduce((totals, row) => ({
+          requests: totals.requests + row.requests,
+          promptTokens: totals.promptTokens + row.promptTokens,
+          completionTokens: totals.completionTokens + row.completionTokens,
+          totalTokens: totals.totalTokens + row.totalTokens,
+          costUsd: totals.costUsd + row.costUsd
+        }), { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 }),
+        byDay
+      };
+      res.json(report);
+    } catch (error) {
+      console.error('Usage API error:', error);
+      res.status(500).json({ error: 'Failed to load usage' });
+    }
+  });
+
+  // Per-model request counts, latency percentiles, error rates and spend across
+  // all users, plus automation counts, for the /dashboard page
+  app.get('/api/metrics', requireAdmin, async (req, res) => {
+    try {
+      const range = parseDateRange(req.query);
+      if ('error' in range) {
+        return res.status(400).json({ error: range.error });
+      }
+
+      const [models, daily, automations] = await Promise.all([
+        storage.summarizeModelCalls(range.start, range.end, false),
+        storage.summarizeModelCalls(range.start, range.end, true),
+        storage.countAutomations(range.start, range.end)
+      ]);
+      const report: MetricsReport = { from: range.from, to: range.to, models, daily, automations };
+      res.json(report);
+    } catch (error) {
+      console.error('Metrics API error:', error);
+      res.status(500).json({ error: 'Failed to load metrics' });
+    }
+  });
+
+  // The user's saved personas, for the picker next to the model selector
+  app.get('/api/personas', requireScope('chat'), async (req, res) => {
+    try {
+      res.json(await storage.listPersonas(req.user!.id));
+    } catch (error) {
+      console.error('Persona list API error:', error);
+      res.status(500).json({ error: 'Failed to load personas' });
+    }
+  });
+
+  app.post('/api/personas', requireScope('chat'), async (req, res) => {
+    try {
+      const result = createPersonaSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+
+      if (!isPersonaModel(req.user!, result.data.defaultModel)) {
+        return res.status(400).json({ error: `Unknown model: ${result.data.defaultModel}` });
+      }
+
+      const persona = await storage.createPersona({ ...result.data, userId: req.user!.id });
+      console.log('Persona created:', { id: persona.id, userId: req.user!.id });
+      res.status(201).json(persona);
+    } catch (error) {
+      console.error('Persona create API error:', error);
+      res.status(500).json({ error: 'Failed to create persona' });
+    }
+  });
+
+  app.patch('/api/personas/:id', requireScope('chat'), async (req, res) => {
+    try {
+      const result = updatePersonaSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+
+      if (!isPersonaModel(req.user!, result.data.defaultModel)) {
+        return res.status(400).json({ error: `Unknown model: ${result.data.defaultModel}` });
+      }
+
+      const persona = await getOwnedPersona(req.user!.id, req.params.id);
+      if (!persona) {
+        return res.status(404).json({ error: 'Persona not found' });
+      }
+
+      res.json(await storage.updatePersona(persona.id, result.data));
+    } catch (error) {
+      console.error('Persona update API error:', error);
+      res.status(500).json({ error: 'Failed to update persona' });
+    }
+  });
+
+  app.delete('/api/personas/:id', requireScope('chat'), async (req, res) => {
+    try {
+      const persona = await getOwnedPersona(req.user!.id, req.params.id);
+      if (!persona) {
+        return res.status(404).json({ error: 'Persona not found' });
+      }
+
+      await storage.deletePersona(persona.id);
+      console.log('Persona deleted:', { id: persona.id, userId: req.user!.id });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Persona delete API error:', error);
+      res.status(500).json({ error: 'Failed to delete persona' });
+    }
+  });
+
+  // The user's conversations for the sidebar; `q` searches titles and message text
+  app.get('/api/conversations', requireScope('chat'), async (req, res) => {
+    try {
+      const search = typeof req.query.q === 'string' ? req.query.q : undefined;
+      res.json(await storage.listConversations(req.user!.id, search));
+    } catch (error) {
+      console.error('Conversation list API error:', error);
+      res.status(500).json({ error: 'Failed to load conversations' });
+    }
+  });
+
+  // Rename or pin a conversation
+  app.patch('/api/conversations/:id', requireScope('chat'), async (req, res) => {
+    try {
+      const result = updateConversationSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+
+      const conversation = await getOwnedConversation(req.user!.id, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      res.json(await storage.updateConversation(conversation.id, result.data));
+    } catch (error) {
+      console.error('Conversation update API error:', error);
+      res.status(500).json({ error: 'Failed to update conversation' });
+    }
+  });
+
+  app.delete('/api/conversations/:id', requireScope('chat'), async (req, res) => {
+    try {
+      const conversation = await getOwnedConversation(req.user!.id, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      await storage.deleteConversation(conversation.id);
+      console.log('Conversation deleted:', { id: conversation.id, userId: req.user!.id });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Conversation delete API error:', error);
+      res.status(500).json({ error: 'Failed to delete conversation' });
+    }
+  });
+
+  // Load a conversation with its full message history
+  app.get('/api/conversations/:id', requireScope('chat'), async (req, res) => {
+    try {
+      const conversation = await getOwnedConversation(req.user!.id, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const [messages, automations] = await Promise.all([
+        storage.getMessages(conversation.id),
+        storage.listAutomations(conversation.id),
+      ]);
+      res.json({ ...conversation, messages, automations });
+    } catch (error) {
+      console.error('Conversation API error:', error);
+      res.status(500).json({ error: 'Failed to load conversation' });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
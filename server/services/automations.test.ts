@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import nodemailer from "nodemailer";
+import type { AutomationIntent } from "@shared/types";
+import {
+  AutomationExecutor,
+  JiraTaskHandler,
+  SlackWebhookHandler,
+  SmtpEmailHandler,
+  type AutomationHandlers,
+} from "./automations";
+
+const EMAIL: AutomationIntent = {
+  type: "email",
+  payload: { to: "team@example.com", subject: "Standup", body: "Moved to 10am" },
+};
+const TASK: AutomationIntent = { type: "task", payload: { title: "Fix login", description: "Users get 500s" } };
+const SLACK: AutomationIntent = { type: "slack", payload: { channel: "#ops", text: "Deploying now" } };
+
+// A local HTTP server standing in for Jira or a Slack webhook; records each request body
+let server: Server | undefined;
+
+async function fakeService(status: number, body: unknown) {
+  const requests: Array<{ url?: string; headers: IncomingMessage["headers"]; body: any }> = [];
+  server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      requests.push({ url: req.url, headers: req.headers, body: JSON.parse(raw) });
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, requests };
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+  server = undefined;
+});
+
+describe("AutomationExecutor", () => {
+  it("proposes actions without running them", () => {
+    const executor = new AutomationExecutor({}, { dryRun: false });
+    const action = executor.createAction(EMAIL, "conversation-1");
+    expect(action).toMatchObject({
+      type: "email",
+      conversationId: "conversation-1",
+      status: "proposed",
+      dryRun: false,
+      message: "Send email to team@example.com",
+    });
+  });
+
+  it("succeeds without calling the handler in dry-run mode", async () => {
+    const email = { execute: vi.fn() };
+    const executor = new AutomationExecutor({ email }, { dryRun: true });
+
+    const result = await executor.execute(executor.createAction(EMAIL, "conversation-1"));
+    expect(result).toMatchObject({
+      status: "succeeded",
+      dryRun: true,
+      message: "Dry run: email to team@example.com not sent",
+    });
+    expect(email.execute).not.toHaveBeenCalled();
+  });
+
+  it("runs the handler for the action's type and reports what it did", async () => {
+    const handlers: AutomationHandlers = {
+      email: { execute: vi.fn() },
+      task: { execute: vi.fn().mockResolvedValue("Jira task OPS-1 created") },
+      slack: { execute: vi.fn() },
+    };
+    const executor = new AutomationExecutor(handlers, { dryRun: false });
+
+    const result = await executor.execute(executor.createAction(TASK, "conversation-1"));
+    expect(result).toMatchObject({ status: "succeeded", dryRun: false, message: "Jira task OPS-1 created" });
+    expect(result.error).toBeUndefined();
+    expect(handlers.task.execute).toHaveBeenCalledWith(TASK.payload);
+    expect(handlers.email.execute).not.toHaveBeenCalled();
+  });
+
+  it("fails with the handler's error", async () => {
+    const slack = { execute: vi.fn().mockRejectedValue(new Error("webhook gone")) };
+    const executor = new AutomationExecutor({ slack }, { dryRun: false });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await executor.execute(executor.createAction(SLACK, "conversation-1"));
+    expect(result).toMatchObject({
+      status: "failed",
+      dryRun: false,
+      message: "Failed to run slack automation",
+      error: "webhook gone",
+    });
+  });
+
+  it("fails when no handler is configured for the type", async () => {
+    const executor = new AutomationExecutor({}, { dryRun: false });
+
+    const result = await executor.execute(executor.createAction(EMAIL, "conversation-1"));
+    expect(result).toMatchObject({ status: "failed", error: "No handler configured for email automations" });
+  });
+});
+
+describe("handlers", () => {
+  it("sends email through the SMTP transport", async () => {
+    const sink = nodemailer.createTransport({ jsonTransport: true });
+    const send = vi.spyOn(sink, "sendMail");
+    const handler = new SmtpEmailHandler(sink, "awake@example.com");
+
+    expect(await handler.execute({ to: "team@example.com", subject: "Standup", body: "Moved to 10am" })).toBe("Email sent to team@example.com");
+    expect(send).toHaveBeenCalledWith({
+      from: "awake@example.com",
+      to: "team@example.com",
+      subject: "Standup",
+      text: "Moved to 10am",
+    });
+  });
+
+  it("creates Jira tasks in the configured project", async () => {
+    const jira = await fakeService(201, { key: "OPS-7" });
+    const handler = new JiraTaskHandler({
+      baseUrl: `${jira.url}/`,
+      email: "bot@example.com",
+      apiToken: "token",
+      projectKey: "OPS",
+    });
+
+    expect(await handler.execute({ title: "Fix login", description: "Users get 500s" })).toBe("Jira task OPS-7 created");
+    expect(jira.requests).toHaveLength(1);
+    expect(jira.requests[0].url).toBe("/rest/api/2/issue");
+    expect(jira.requests[0].headers.authorization).toBe(`Basic ${Buffer.from("bot@example.com:token").toString("base64")}`);
+    expect(jira.requests[0].body.fields).toMatchObject({ project: { key: "OPS" }, summary: "Fix login" });
+  });
+
+  it("posts to the Slack webhook and surfaces its errors", async () => {
+    const slack = await fakeService(200, {});
+    const handler = new SlackWebhookHandler(slack.url);
+    expect(await handler.execute({ channel: "#ops", text: "Deploying now" })).toBe("Slack message posted to #ops");
+    expect(slack.requests[0].body).toEqual({ channel: "#ops", text: "Deploying now" });
+
+    await new Promise((resolve) => server!.close(resolve));
+    const broken = await fakeService(404, { error: "no_service" });
+    await expect(new SlackWebhookHandler(broken.url).execute({ text: "Hi" })).rejects.toThrow("Slack webhook error: 404");
+  });
+});
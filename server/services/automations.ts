@@ -0,0 +1,260 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { randomUUID } from "crypto";
+import {
+  automationIntentSchema,
+  type AutomationAction,
+  type AutomationIntent,
+  type AutomationPayloads,
+  type AutomationType,
+  type EmailPayload,
+  type SlackPayload,
+  type TaskPayload,
+} from "@shared/types";
+
+// A handler performs one kind of automation and returns a short,
+// user-facing description of what it did.
+export interface AutomationHandler<K extends AutomationType> {
+  execute(payload: AutomationPayloads[K]): Promise<string>;
+}
+
+export type AutomationHandlers = {
+  [K in AutomationType]: AutomationHandler<K>;
+};
+
+export interface AutomationExecutorOptions {
+  dryRun: boolean;
+}
+
+export class SmtpEmailHandler implements AutomationHandler<'email'> {
+  constructor(
+    private transport: Transporter,
+    private from: string
+  ) {}
+
+  async execute(payload: EmailPayload): Promise<string> {
+    await this.transport.sendMail({
+      from: this.from,
+      to: payload.to,
+      subject: payload.subject,
+      text: payload.body
+    });
+    return `Email sent to ${payload.to}`;
+  }
+}
+
+export interface JiraConfig {
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+  projectKey: string;
+}
+
+export class JiraTaskHandler implements AutomationHandler<'task'> {
+  constructor(private config: JiraConfig) {}
+
+  async execute(payload: TaskPayload): Promise<string> {
+    const auth = Buffer.from(`${this.config.email}:${this.config.apiToken}`).toString('base64');
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/rest/api/2/issue`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify({
+        fields: {
+          project: { key: this.config.projectKey },
+          summary: payload.title,
+          description: payload.description,
+          issuetype: { name: 'Task' }
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Jira API error: ${response.status} - ${error}`);
+    }
+
+    const issue: { key?: string } = await response.json();
+    return issue.key ? `Jira task ${issue.key} created` : 'Jira task created';
+  }
+}
+
+export class SlackWebhookHandler implements AutomationHandler<'slack'> {
+  constructor(private webhookUrl: string) {}
+
+  async execute(payload: SlackPayload): Promise<string> {
+    const response = await fetch(this.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: payload.text,
+        ...(payload.channel ? { channel: payload.channel } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Slack webhook error: ${response.status} - ${error}`);
+    }
+
+    return payload.channel ? `Slack message posted to ${payload.channel}` : 'Slack message posted';
+  }
+}
+
+// Builds handlers from environment configuration. Types without configuration
+// are left out and fail with a clear error when they are executed for real.
+export function createDefaultHandlers(): Partial<AutomationHandlers> {
+  const handlers: Partial<AutomationHandlers> = {};
+
+  if (process.env.SMTP_URL) {
+    handlers.email = new SmtpEmailHandler(
+      nodemailer.createTransport(process.env.SMTP_URL),
+      process.env.EMAIL_FROM || 'awake@localhost'
+    );
+  }
+
+  const { JIRA_BASE_URL, JIRA_EMAIL, JIRA_API_TOKEN, JIRA_PROJECT_KEY } = process.env;
+  if (JIRA_BASE_URL && JIRA_EMAIL && JIRA_API_TOKEN && JIRA_PROJECT_KEY) {
+    handlers.task = new JiraTaskHandler({
+      baseUrl: JIRA_BASE_URL,
+      email: JIRA_EMAIL,
+      apiToken: JIRA_API_TOKEN,
+      projectKey: JIRA_PROJECT_KEY
+    });
+  }
+
+  if (process.env.SLACK_WEBHOOK_URL) {
+    handlers.slack = new SlackWebhookHandler(process.env.SLACK_WEBHOOK_URL);
+  }
+
+  return handlers;
+}
+
+const AUTOMATION_ICONS: Record<AutomationType, string> = {
+  email: '📧',
+  task: '✅',
+  slack: '💬'
+};
+
+function describeProposal(intent: AutomationIntent): string {
+  switch (intent.type) {
+    case 'email':
+      return `Send email to ${intent.payload.to}`;
+    case 'task':
+      return `Create Jira task "${intent.payload.title}"`;
+    case 'slack':
+      return `Post Slack message${intent.payload.channel ? ` to ${intent.payload.channel}` : ''}`;
+  }
+}
+
+// Offline fallback used when the model cannot be asked for intents: matches
+// keywords in the message and fills payloads from the reply and defaults.
+export function matchAutomationKeywords(message: string, content: string): AutomationIntent[] {
+  const candidates: unknown[] = [];
+  const lowerMessage = message.toLowerCase();
+  const summary = message.trim().slice(0, 80);
+
+  if (lowerMessage.includes('email')) {
+    candidates.push({
+      type: 'email',
+      payload: { to: process.env.AUTOMATION_EMAIL_TO || '', subject: summary, body: content }
+    });
+  }
+
+  if (lowerMessage.includes('task')) {
+    candidates.push({ type: 'task', payload: { title: summary, description: content } });
+  }
+
+  if (lowerMessage.includes('slack')) {
+    candidates.push({ type: 'slack', payload: { text: content } });
+  }
+
+  return candidates.flatMap((candidate) => {
+    const parsed = automationIntentSchema.safeParse(candidate);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function describeDryRun(action: AutomationAction): string {
+  switch (action.type) {
+    case 'email':
+      return `Dry run: email to ${action.payload.to} not sent`;
+    case 'task':
+      return `Dry run: Jira task "${action.payload.title}" not created`;
+    case 'slack':
+      return `Dry run: Slack message${action.payload.channel ? ` to ${action.payload.channel}` : ''} not posted`;
+  }
+}
+
+// Generic over the automation type, so the handler comes back typed for that
+// type's payload and can be called with the action's payload as it is
+function handlerFor<K extends AutomationType>(
+  handlers: Partial<AutomationHandlers>,
+  type: K
+): AutomationHandler<K> | undefined {
+  return handlers[type];
+}
+
+export class AutomationExecutor {
+  constructor(
+    private handlers: Partial<AutomationHandlers>,
+    private options: AutomationExecutorOptions
+  ) {}
+
+  get dryRun(): boolean {
+    return this.options.dryRun;
+  }
+
+  // Wraps an intent in a proposed action; nothing runs until it is confirmed
+  createAction(intent: AutomationIntent, conversationId: string): AutomationAction {
+    return {
+      ...intent,
+      id: randomUUID(),
+      conversationId,
+      message: describeProposal(intent),
+      icon: AUTOMATION_ICONS[intent.type],
+      status: 'proposed',
+      dryRun: this.options.dryRun
+    };
+  }
+
+  async execute(action: AutomationAction): Promise<AutomationAction> {
+    if (this.options.dryRun) {
+      return { ...action, status: 'succeeded', dryRun: true, message: describeDryRun(action) };
+    }
+
+    const handler = handlerFor(this.handlers, action.type);
+    if (!handler) {
+      return {
+        ...action,
+        status: 'failed',
+        dryRun: false,
+        message: `No ${action.type} handler configured`,
+        error: `No handler configured for ${action.type} automations`
+      };
+    }
+
+    try {
+      const message = await handler.execute(action.payload);
+      return { ...action, status: 'succeeded', dryRun: false, message };
+    } catch (error) {
+      console.error(`Automation ${action.type} failed:`, error);
+      return {
+        ...action,
+        status: 'failed',
+        dryRun: false,
+        message: `Failed to run ${action.type} automation`,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+// Automations only leave the box when explicitly enabled
+export function createAutomationExecutor(): AutomationExecutor {
+  return new AutomationExecutor(createDefaultHandlers(), {
+    dryRun: process.env.AUTOMATIONS_DRY_RUN !== 'false'
+  });
+}
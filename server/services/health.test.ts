@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ModelHealthMonitor } from "./health";
+
+const OPTIONS = { window: 10, failureThreshold: 2, cooldownMs: 1000, degradedSuccessRate: 0.8 };
+
+describe("ModelHealthMonitor", () => {
+  let health: ModelHealthMonitor;
+
+  beforeEach(() => {
+    health = new ModelHealthMonitor(OPTIONS);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    // Opens the circuit at t=0
+    health.record("gpt", 100, false, "502", 0);
+    health.record("gpt", 100, false, "502", 0);
+  });
+
+  it("refuses calls while the circuit is open", () => {
+    expect(health.canCall("gpt", 500)).toBe(false);
+    expect(health.retryAfter("gpt", 500)).toBe(1);
+    expect(health.status("gpt", 500)).toMatchObject({ status: "offline", circuit: "open" });
+    expect(health.canCall("claude", 500)).toBe(true);
+  });
+
+  it("lets a single probe through once the cooldown has passed", () => {
+    expect(health.canCall("gpt", 1000)).toBe(true);
+    expect(health.canCall("gpt", 1001)).toBe(false);
+    expect(health.canCall("gpt", 1500)).toBe(false);
+    expect(health.status("gpt", 1500).circuit).toBe("half-open");
+  });
+
+  it("closes the circuit when the probe succeeds", () => {
+    health.canCall("gpt", 1000);
+    health.record("gpt", 100, true, undefined, 1100);
+    expect(health.canCall("gpt", 1101)).toBe(true);
+    expect(health.canCall("gpt", 1102)).toBe(true);
+    expect(health.status("gpt", 1102).circuit).toBe("closed");
+  });
+
+  it("reopens the circuit when the probe fails", () => {
+    health.canCall("gpt", 1000);
+    health.record("gpt", 100, false, "502", 1100);
+    expect(health.canCall("gpt", 1200)).toBe(false);
+    expect(health.status("gpt", 1200).circuit).toBe("open");
+    expect(health.canCall("gpt", 2100)).toBe(true);
+  });
+
+  it("frees a probe that was released or never reported back", () => {
+    health.canCall("gpt", 1000);
+    health.release("gpt");
+    expect(health.canCall("gpt", 1001)).toBe(true);
+    // That probe never reports; after another cooldown a new one may go
+    expect(health.canCall("gpt", 1500)).toBe(false);
+    expect(health.canCall("gpt", 2001)).toBe(true);
+  });
+});
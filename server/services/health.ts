@@ -0,0 +1,155 @@
+import type { CircuitState, ModelHealth } from "@shared/types";
+
+export interface HealthOptions {
+  // How many recent calls per model feed the success rate and latency
+  window: number;
+  // Consecutive failures that open a model's circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before one is let through to probe
+  cooldownMs: number;
+  // Below this recent success rate a model is reported as degraded
+  degradedSuccessRate: number;
+}
+
+interface CallSample {
+  latencyMs: number;
+  ok: boolean;
+}
+
+interface ModelState {
+  samples: CallSample[];
+  consecutiveFailures: number;
+  circuit: CircuitState;
+  openedAt?: number;
+  // Set while a half-open circuit's probe call is out
+  probeStartedAt?: number;
+  lastError?: string;
+  lastFailureAt?: number;
+}
+
+// Rolling per-model call statistics plus a circuit breaker per model. After
+// `failureThreshold` failures in a row the circuit opens and calls to that
+// model are refused outright; once the cooldown has passed the circuit goes
+// half-open and lets a single probe call through; its result either closes
+// the circuit or opens it again.
+export class ModelHealthMonitor {
+  private states = new Map<string, ModelState>();
+
+  constructor(private options: HealthOptions) {}
+
+  // False while the model's circuit is open, and for everyone but the probe
+  // while it is half-open. Calling this when it returns true takes the probe.
+  canCall(model: string, now = Date.now()): boolean {
+    const state = this.state(model);
+    if (state.circuit === 'closed') return true;
+    if (state.circuit === 'open') {
+      if (now - (state.openedAt ?? 0) < this.options.cooldownMs) return false;
+      state.circuit = 'half-open';
+    }
+    // A probe that never reports back stops blocking after another cooldown
+    if (state.probeStartedAt !== undefined && now - state.probeStartedAt < this.options.cooldownMs) {
+      return false;
+    }
+    state.probeStartedAt = now;
+    return true;
+  }
+
+  // Seconds until the model takes calls again
+  retryAfter(model: string, now = Date.now()): number {
+    const state = this.state(model);
+    const until = state.circuit === 'open'
+      ? (state.openedAt ?? 0) + this.options.cooldownMs
+      : state.circuit === 'half-open' && state.probeStartedAt !== undefined
+        ? state.probeStartedAt + this.options.cooldownMs
+        : now;
+    return until > now ? Math.max(1, Math.ceil((until - now) / 1000)) : 0;
+  }
+
+  // Frees the probe without a verdict, e.g. when the probe call was cancelled
+  release(model: string): void {
+    this.state(model).probeStartedAt = undefined;
+  }
+
+  record(model: string, latencyMs: number, ok: boolean, error?: string, now = Date.now()): void {
+    const state = this.state(model);
+    state.probeStartedAt = undefined;
+    state.samples.push({ latencyMs, ok });
+    if (state.samples.length > this.options.window) {
+      state.samples.shift();
+    }
+
+    if (ok) {
+      state.consecutiveFailures = 0;
+      state.circuit = 'closed';
+      return;
+    }
+
+    state.consecutiveFailures += 1;
+    state.lastError = error;
+    state.lastFailureAt = now;
+    if (state.circuit === 'half-open' || state.consecutiveFailures >= this.options.failureThreshold) {
+      if (state.circuit !== 'open') {
+        console.warn(`Circuit opened for ${model} after ${state.consecutiveFailures} consecutive failures`);
+      }
+      state.circuit = 'open';
+      state.openedAt = now;
+    }
+  }
+
+  status(model: string, now = Date.now()): ModelHealth {
+    const state = this.state(model);
+    // Reading the status must not move an open circuit to half-open
+    const circuit = state.circuit === 'open' && now - (state.openedAt ?? 0) >= this.options.cooldownMs
+      ? 'half-open'
+      : state.circuit;
+    const succeeded = state.samples.filter((sample) => sample.ok);
+    const successRate = state.samples.length > 0 ? succeeded.length / state.samples.length : null;
+    const averageLatencyMs = succeeded.length > 0
+      ? Math.round(succeeded.reduce((sum, sample) => sum + sample.latencyMs, 0) / succeeded.length)
+      : null;
+
+    let status: ModelHealth['status'] = 'online';
+    if (circuit === 'open') {
+      status = 'offline';
+    } else if (circuit === 'half-open' || (successRate !== null && successRate < this.options.degradedSuccessRate)) {
+      status = 'degraded';
+    }
+
+    return {
+      model,
+      status,
+      circuit,
+      successRate,
+      averageLatencyMs,
+      samples: state.samples.length,
+      consecutiveFailures: state.consecutiveFailures,
+      ...(state.lastError ? { lastError: state.lastError } : {}),
+      ...(state.lastFailureAt ? { lastFailureAt: new Date(state.lastFailureAt).toISOString() } : {}),
+      ...(circuit === 'open' ? { retryAt: new Date((state.openedAt ?? 0) + this.options.cooldownMs).toISOString() } : {})
+    };
+  }
+
+  private state(model: string): ModelState {
+    let state = this.states.get(model);
+    if (!state) {
+      state = { samples: [], consecutiveFailures: 0, circuit: 'closed' };
+      this.states.set(model, state);
+    }
+    return state;
+  }
+}
+
+function positive(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// MODEL_CIRCUIT_FAILURES consecutive failures open a circuit for MODEL_CIRCUIT_COOLDOWN_MS
+export function loadHealthOptions(): HealthOptions {
+  return {
+    window: 50,
+    failureThreshold: positive('MODEL_CIRCUIT_FAILURES', 5),
+    cooldownMs: positive('MODEL_CIRCUIT_COOLDOWN_MS', 30000),
+    degradedSuccessRate: 0.8
+  };
+}
@@ -0,0 +1,293 @@
+import { readFileSync } from "fs";
+import type { ModelSetting, User } from "@shared/schema";
+import type {
+  AdminModel,
+  AdminModelsResponse,
+  CatalogModel,
+  GenerationParams,
+  ModelCatalogResponse,
+  ModelPricing,
+  ModelStatus,
+  TokenUsage
+} from "@shared/types";
+import { parseModelList, type LLMProvider, type ProviderModel } from "./providers";
+import bundledCatalog from "../data/models.json";
+
+export interface ModelAlias {
+  // The provider's model id, e.g. 'openai/gpt-4o'
+  id: string;
+  // Shown in the model picker; defaults to the catalog's name for the model
+  label?: string;
+}
+
+export const DEFAULT_MODEL_ALIASES: Record<string, ModelAlias> = {
+  gpt: { id: 'openai/gpt-4o', label: 'GPT' },
+  claude: { id: 'anthropic/claude-3.5-sonnet', label: 'Claude' },
+  llama: { id: 'meta-llama/llama-3.1-70b-instruct', label: 'LLaMA' },
+};
+
+export interface ModelCatalogOptions {
+  // Admin settings saved in storage are laid over these
+  aliases: Record<string, ModelAlias>;
+  // Fetch the catalog from the provider's /models; otherwise only `offline` is used
+  remote: boolean;
+  // The local catalog, also filling in whatever the provider leaves out
+  offline: ProviderModel[];
+  // How long a fetched catalog is served before it is fetched again
+  ttlMs: number;
+}
+
+// Who is asking, for the per-model role and user restrictions
+export type ModelUser = Pick<User, 'id' | 'role'>;
+
+// Top of the temperature range the upstream API accepts, by vendor prefix
+const MAX_TEMPERATURE: Record<string, number> = { anthropic: 1 };
+const DEFAULT_MAX_TEMPERATURE = 2;
+
+function isOverPrice(pricing: ModelPricing | null, setting: ModelSetting | undefined): boolean {
+  // An unknown price cannot be judged, so it does not withhold the model
+  if (!pricing || !setting) return false;
+  return (setting.maxPromptPrice !== null && pricing.prompt > setting.maxPromptPrice)
+    || (setting.maxCompletionPrice !== null && pricing.completion > setting.maxCompletionPrice);
+}
+
+// The models the app offers, keyed by alias. Which aliases exist is
+// configuration, overridden per alias by admin settings; what each model
+// costs, how much it reads and writes, and whether it is still listed at all
+// comes from the catalog. With `remote` set that is the provider's /models
+// list, fetched again in the background once it is older than the TTL and
+// kept as it was when a fetch fails.
+export class ModelCatalog {
+  private listed: ProviderModel[];
+  private authoritative = false;
+  private settings = new Map<string, ModelSetting>();
+  // Every configured alias, offered or not
+  private entries: AdminModel[] = [];
+  private models: CatalogModel[] = [];
+  private source: ModelCatalogResponse['source'] = 'file';
+  private updatedAt = new Date();
+  private fetchedAt = 0;
+  private fetching?: Promise<void>;
+
+  constructor(private provider: LLMProvider, private options: ModelCatalogOptions) {
+    this.listed = options.offline;
+    this.rebuild();
+  }
+
+  // Replaces the admin overrides, e.g. after one is saved
+  applySettings(settings: ModelSetting[]): void {
+    this.settings = new Map(settings.map((setting) => [setting.alias, setting]));
+    this.rebuild();
+  }
+
+  list(): CatalogModel[] {
+    void this.refreshIfStale();
+    return this.models;
+  }
+
+  aliases(): string[] {
+    return this.list().map((model) => model.alias);
+  }
+
+  get(alias: string): CatalogModel | undefined {
+    return this.list().find((model) => model.alias === alias);
+  }
+
+  has(model: unknown): model is string {
+    return typeof model === 'string' && this.get(model) !== undefined;
+  }
+
+  // What ChatRequest.model accepts
+  isSupported(model: unknown): model is string {
+    return model === 'auto' || this.has(model);
+  }
+
+  // Whether the admin settings let `user` call the model; without a user
+  // (internal calls such as intent extraction) nothing is restricted
+  allows(alias: string, user?: ModelUser): boolean {
+    const setting = this.settings.get(alias);
+    if (!user || !setting || (setting.allowedRoles === null && setting.allowedUserIds === null)) {
+      return true;
+    }
+    return !!setting.allowedRoles?.includes(user.role) || !!setting.allowedUserIds?.includes(user.id);
+  }
+
+  // The aliases `user` may pick, in catalog order
+  aliasesFor(user?: ModelUser): string[] {
+    return this.aliases().filter((alias) => this.allows(alias, user));
+  }
+
+  // USD cost of a call: what the provider reported, else an estimate from the catalog prices
+  estimateCostUsd(model: string, usage: TokenUsage | undefined): number {
+    if (!usage) return 0;
+    if (usage.costUsd !== undefined) return usage.costUsd;
+    const pricing = this.get(model)?.pricing;
+    if (!pricing) return 0;
+    return (usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion) / 1_000_000;
+  }
+
+  // Pulls max tokens and temperature inside what the model supports, so a value
+  // that is valid for one model does not fail the call on another. An admin
+  // token cap also applies when the request sets no max_tokens.
+  clampGeneration(model: string, generation: GenerationParams): GenerationParams {
+    const entry = this.get(model);
+    if (!entry) return generation;
+    const maxTemperature = MAX_TEMPERATURE[entry.id.split('/')[0]] ?? DEFAULT_MAX_TEMPERATURE;
+    const maxTokens = generation.maxTokens ?? this.settings.get(model)?.maxTokens ?? undefined;
+    return {
+      ...generation,
+      ...(maxTokens !== undefined
+        ? { maxTokens: entry.maxOutputTokens !== null ? Math.min(maxTokens, entry.maxOutputTokens) : maxTokens }
+        : {}),
+      ...(generation.temperature !== undefined
+        ? { temperature: Math.min(generation.temperature, maxTemperature) }
+        : {})
+    };
+  }
+
+  // For GET /api/models: what `user` may pick; waits for a due fetch so the answer is current
+  async describe(user?: ModelUser): Promise<ModelCatalogResponse> {
+    await this.refreshIfStale();
+    return {
+      source: this.source,
+      updatedAt: this.updatedAt.toISOString(),
+      models: this.models.filter((model) => this.allows(model.alias, user))
+    };
+  }
+
+  // For the admin page: every configured alias with why it is or is not offered
+  async describeAll(): Promise<AdminModelsResponse> {
+    await this.refreshIfStale();
+    return {
+      models: this.entries,
+      providerModels: this.listed.map(({ id, name }) => ({ id, name }))
+    };
+  }
+
+  private refreshIfStale(): Promise<void> {
+    if (!this.options.remote || Date.now() - this.fetchedAt < this.options.ttlMs) {
+      return Promise.resolve();
+    }
+    this.fetching ??= this.fetch().finally(() => {
+      this.fetching = undefined;
+    });
+    return this.fetching;
+  }
+
+  private async fetch(): Promise<void> {
+    try {
+      const listed = await this.provider.listModels();
+      // An empty or unrelated list would leave nothing to call; keep what we have
+      const ids = new Set(listed.map((model) => model.id));
+      if (!this.configured().some(([, { id }]) => ids.has(id))) {
+        throw new Error('none of the configured models are listed');
+      }
+      this.listed = listed;
+      this.authoritative = true;
+      this.source = 'openrouter';
+      this.updatedAt = new Date();
+      this.rebuild();
+    } catch (error) {
+      console.error('Could not refresh the model catalog, keeping the current one:', error);
+    } finally {
+      this.fetchedAt = Date.now();
+    }
+  }
+
+  // The server's aliases with the admin's settings laid over them
+  private configured(): Array<[string, ModelAlias]> {
+    const aliases = { ...this.options.aliases };
+    this.settings.forEach((setting, alias) => {
+      aliases[alias] = { id: setting.modelId, label: setting.label ?? aliases[alias]?.label };
+    });
+    return Object.entries(aliases);
+  }
+
+  // One entry per alias. A fetched list is authoritative: aliases whose model
+  // it no longer lists are withheld. The local catalog only adds details.
+  private rebuild(): void {
+    const byId = new Map(this.listed.map((model) => [model.id, model]));
+    const offline = new Map(this.options.offline.map((model) => [model.id, model]));
+
+    this.entries = this.configured().map(([alias, { id, label }]): AdminModel => {
+      const entry = byId.get(id);
+      const known: Partial<ProviderModel> = { ...offline.get(id), ...entry };
+      const setting = this.settings.get(alias);
+      const pricing = known.pricing ?? null;
+      const limits = [known.maxOutputTokens, setting?.maxTokens ?? undefined]
+        .filter((limit): limit is number => limit !== undefined);
+
+      let status: ModelStatus = 'available';
+      if (setting && !setting.enabled) {
+        status = 'disabled';
+      } else if (!entry && this.authoritative) {
+        status = 'unlisted';
+      } else if (isOverPrice(pricing, setting)) {
+        status = 'over-price';
+      }
+
+      return {
+        alias,
+        id,
+        label: label ?? known.name ?? alias,
+        name: known.name ?? id,
+        contextLength: known.contextLength ?? null,
+        maxOutputTokens: limits.length > 0 ? Math.min(...limits) : null,
+        pricing,
+        status,
+        setting: setting ?? null
+      };
+    });
+
+    this.models = this.entries
+      .filter((entry) => entry.status === 'available')
+      .map(({ status: _status, setting: _setting, ...model }) => model);
+  }
+}
+
+// MODEL_ALIASES adds, replaces or (with null) removes aliases, e.g.
+// {"mistral":"mistralai/mistral-large","gpt":{"id":"openai/gpt-4o-mini","label":"GPT mini"},"llama":null}
+function loadAliases(): Record<string, ModelAlias> {
+  const aliases = { ...DEFAULT_MODEL_ALIASES };
+  if (!process.env.MODEL_ALIASES) return aliases;
+
+  try {
+    const overrides: Record<string, string | ModelAlias | null> = JSON.parse(process.env.MODEL_ALIASES);
+    for (const [alias, value] of Object.entries(overrides)) {
+      if (value === null) {
+        delete aliases[alias];
+      } else {
+        aliases[alias] = typeof value === 'string' ? { id: value } : value;
+      }
+    }
+  } catch (error) {
+    console.error('Invalid MODEL_ALIASES, using defaults:', error);
+  }
+  return aliases;
+}
+
+// MODEL_CATALOG_FILE points at another /models dump to use instead of the bundled one
+function loadOfflineCatalog(): ProviderModel[] {
+  const file = process.env.MODEL_CATALOG_FILE;
+  if (file) {
+    try {
+      return parseModelList(JSON.parse(readFileSync(file, 'utf-8')));
+    } catch (error) {
+      console.error(`Could not read MODEL_CATALOG_FILE ${file}, using the bundled catalog:`, error);
+    }
+  }
+  return parseModelList(bundledCatalog);
+}
+
+// Only OpenRouter's /models carries prices and limits, so other providers and
+// MODEL_CATALOG_OFFLINE=true use the local catalog; MODEL_CATALOG_TTL_MS sets
+// how often OpenRouter's is fetched again
+export function loadModelCatalogOptions(providerName: string): ModelCatalogOptions {
+  const ttlMs = parseInt(process.env.MODEL_CATALOG_TTL_MS || '', 10);
+  return {
+    aliases: loadAliases(),
+    remote: providerName === 'openrouter' && process.env.MODEL_CATALOG_OFFLINE !== 'true',
+    offline: loadOfflineCatalog(),
+    ttlMs: Number.isFinite(ttlMs) && ttlMs > 0 ? ttlMs : 3_600_000
+  };
+}
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { OpenRouterService } from "./openrouter";
+import { ModelHealthMonitor } from "./health";
+import { MockProvider, ProviderError, type CompletionRequest, type CompletionResult } from "./providers";
+
+const QUESTION = [{ role: "user" as const, content: "Hi" }];
+
+// Answers like the default mock, except that `hung` models never answer and
+// only fail once their request is aborted
+class HangingProvider extends MockProvider {
+  constructor(private hung: string[]) {
+    super();
+  }
+
+  async chat(request: CompletionRequest): Promise<CompletionResult> {
+    if (!this.hung.includes(request.model)) return super.chat(request);
+    return new Promise((_, reject) => {
+      request.signal?.addEventListener("abort", () => reject(request.signal!.reason), { once: true });
+    });
+  }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("OpenRouterService.compare", () => {
+  it("counts a model that times out as failing, opening its circuit", async () => {
+    const health = new ModelHealthMonitor({ window: 10, failureThreshold: 1, cooldownMs: 60_000, degradedSuccessRate: 0.8 });
+    const service = new OpenRouterService(new HangingProvider(["openai/gpt-4o"]), undefined, undefined, undefined, health);
+
+    const answers = await service.compare(QUESTION, ["gpt", "claude"], {}, 20);
+    expect(answers[0]).toMatchObject({ model: "gpt", error: "Timed out after 20ms" });
+    expect(answers[1]).toMatchObject({ model: "claude", content: "[anthropic/claude-3.5-sonnet] Hi" });
+
+    expect(health.status("gpt")).toMatchObject({ circuit: "open", consecutiveFailures: 1, lastError: "Timed out after 20ms" });
+    expect(health.status("claude")).toMatchObject({ circuit: "closed", samples: 1 });
+  });
+});
+
+describe("OpenRouterService.fuse", () => {
+  it("reports the synthesizer's failover", async () => {
+    const provider = new MockProvider((request) => {
+      if (request.model === "anthropic/claude-3.5-sonnet") throw new ProviderError("upstream unavailable", 502);
+      return { content: `[${request.model}] draft`, toolCalls: [] };
+    });
+    const service = new OpenRouterService(provider);
+
+    const result = await service.fuse(QUESTION, ["gpt", "claude", "llama"]);
+    expect(result.fusion.drafts.map(({ model, error }) => ({ model, failed: !!error }))).toEqual([
+      { model: "gpt", failed: false },
+      { model: "claude", failed: true },
+      { model: "llama", failed: false },
+    ]);
+    expect(result.failover).toEqual([expect.objectContaining({ model: "claude", error: "upstream unavailable" })]);
+    expect(result.fusion.synthesizer).not.toBe("claude");
+  });
+});
@@ -1,92 +1,543 @@
-interface OpenRouterResponse {
-  choices: {
-    message: {
-      content: string;
-    };
-  }[];
-  model: string;
+import {
+  automationIntentSchema,
+  type AutomationIntent,
+  type ChatTurn,
+  type FailoverAttempt,
+  type FusionResult,
+  type GenerationParams,
+  type ModelHealth,
+  type ModelAnswer,
+  type RoutingDecision,
+  type TokenUsage
+} from "@shared/types";
+import {
+  createProvider,
+  type CompletionStream,
+  type LLMProvider,
+  type ProviderModel,
+  type ToolCall,
+  type ToolDefinition
+} from "./providers";
+import { ModelRouter, loadRoutingOptions } from "./router";
+import { RetryingProvider, TimeoutError, isRetryable, loadRetryOptions } from "./retry";
+import { ModelHealthMonitor, loadHealthOptions } from "./health";
+import { ModelCatalog, loadModelCatalogOptions, type ModelUser } from "./modelCatalog";
+
+// JSON mode: OpenAI rejects response_format unless the prompt mentions JSON, and
+// models without native support still need telling
+function withJsonInstruction(messages: ChatTurn[], generation: GenerationParams): ChatTurn[] {
+  if (generation.responseFormat !== 'json') return messages;
+  return [...messages, { role: 'system', content: 'Respond with a single valid JSON object and nothing else.' }];
+}
+
+// Model that extracts automation intents; it needs reliable tool calling.
+// Users barred from it get the first model they may use instead.
+const INTENT_MODEL = process.env.INTENT_MODEL || 'gpt';
+
+const INTENT_SYSTEM_PROMPT = `You decide whether the user is asking for an action to be carried out.
+Only call a tool when the user explicitly asks to send an email, create a task or ticket, or post a chat/Slack message.
+Mentioning one of these topics is not a request (for example "I hate email" needs no tool).
+You are given the user message and the assistant reply to it. When the user refers to "this", "the answer" or similar, use the assistant reply as the content.
+Never invent email addresses; skip the email tool if no recipient address is given.`;
+
+const INTENT_TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'email',
+      description: 'Send an email',
+      parameters: {
+        type: 'object',
+        properties: {
+          to: { type: 'string', description: 'Recipient email address' },
+          subject: { type: 'string' },
+          body: { type: 'string' }
+        },
+        required: ['to', 'subject', 'body']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'task',
+      description: 'Create a Jira task or ticket',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' }
+        },
+        required: ['title']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'slack',
+      description: 'Post a message to a Slack channel',
+      parameters: {
+        type: 'object',
+        properties: {
+          channel: { type: 'string', description: 'Channel name such as #team, if given' },
+          text: { type: 'string' }
+        },
+        required: ['text']
+      }
+    }
+  }
+];
+
+export interface ChatResult {
+  content: string;
+  modelUsed: string;
+  routing?: RoutingDecision;
+  usage?: TokenUsage;
+  latencyMs?: number;
+  // Models that failed before `modelUsed` answered, in the order they were tried
+  failover?: FailoverAttempt[];
+}
+
+// Thrown when a model call fails, so callers know which model to blame;
+// `failover` holds the models that had already failed before this one, and
+// `retryable` is false when the request itself was at fault (bad parameters,
+// context too long, bad key), so another model would fail the same way
+export class ModelCallError extends Error {
+  constructor(
+    message: string,
+    public model: string,
+    public latencyMs: number,
+    public failover: FailoverAttempt[] = [],
+    public retryable = true
+  ) {
+    super(message);
+    this.name = 'ModelCallError';
+  }
+}
+
+// Models tried in this order when the requested one fails, e.g. "claude,gpt";
+// unset means every catalog model, and MODEL_FAILOVER_CHAIN=none turns failover off
+export function loadFailoverChain(): string[] | undefined {
+  const chain = process.env.MODEL_FAILOVER_CHAIN;
+  return chain?.split(',').map((model) => model.trim()).filter(Boolean);
+}
+
+// How long each model gets to answer in compare mode
+const COMPARE_TIMEOUT_MS = parseInt(process.env.COMPARE_TIMEOUT_MS || '30000', 10);
+
+export interface FusionChatResult extends ChatResult {
+  fusion: FusionResult;
 }
 
-const MODEL_MAPPINGS = {
-  gpt: 'openai/gpt-4o',
-  claude: 'anthropic/claude-3.5-sonnet',
-  llama: 'meta-llama/llama-3.1-70b-instruct',
-};
+// Model that merges the drafts in fusion mode
+const FUSION_SYNTHESIZER = process.env.FUSION_SYNTHESIZER || 'claude';
+
+const FUSION_SYSTEM_PROMPT = `You merge several AI drafts into one answer for the user.
+Keep what the drafts agree on, resolve disagreements in favour of the best-supported claim, and drop anything wrong.
+After each sentence or bullet, cite the draft(s) it came from with markers such as [gpt] or [claude][llama].
+Answer the user directly; do not mention that drafts exist other than through the citation markers.`;
 
-const AVAILABLE_MODELS = Object.keys(MODEL_MAPPINGS) as Array<keyof typeof MODEL_MAPPINGS>;
+function sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const known = usages.filter((usage): usage is TokenUsage => !!usage);
+  if (known.length === 0) return undefined;
+  return known.reduce((total, usage) => ({
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    costUsd: (total.costUsd ?? 0) + (usage.costUsd ?? 0)
+  }));
+}
 
+export interface IntentExtraction {
+  intents: AutomationIntent[];
+  // The model that answered, after any failover
+  model: string;
+  usage?: TokenUsage;
+  latencyMs?: number;
+}
+
+// Maps the app's model aliases onto whichever LLM provider is configured and
+// layers the app-level features (auto selection, intent extraction) on top.
 export class OpenRouterService {
-  private apiKey: string;
-  private baseUrl = 'https://openrouter.ai/api/v1';
+  public isAvailable: boolean;
 
-  constructor() {
-    // Check for the correct environment variable
-    this.apiKey = process.env.OPENROUTER_API_KEY || '';
-    
-    if (!this.apiKey) {
-      console.error('OpenRouter API key not found. Available env vars:', {
+  constructor(
+    private provider: LLMProvider = new RetryingProvider(createProvider(), loadRetryOptions()),
+    public catalog: ModelCatalog = new ModelCatalog(provider, loadModelCatalogOptions(provider.name)),
+    private router: ModelRouter = new ModelRouter(loadRoutingOptions(
+      () => catalog.aliases(),
+      (model) => catalog.get(model)?.pricing
+    )),
+    private failoverChain: string[] | undefined = loadFailoverChain(),
+    private health: ModelHealthMonitor = new ModelHealthMonitor(loadHealthOptions())
+  ) {
+    this.isAvailable = provider.isAvailable;
+
+    if (!this.isAvailable) {
+      console.error(`LLM provider "${provider.name}" is not configured. Available env vars:`, {
+        LLM_PROVIDER: process.env.LLM_PROVIDER || 'openrouter',
         OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY ? 'SET' : 'NOT SET',
+        LLM_BASE_URL: process.env.LLM_BASE_URL ? 'SET' : 'NOT SET',
         NODE_ENV: process.env.NODE_ENV,
         VERCEL: process.env.VERCEL ? 'YES' : 'NO'
       });
-      throw new Error('OpenRouter API key is required. Please check your environment variables.');
+      return;
     }
-    
-    console.log('OpenRouter service initialized successfully');
+
+    console.log(`LLM provider "${provider.name}" initialized successfully`);
   }
 
-  async chat(message: string, model: string): Promise<{ content: string; modelUsed: string }> {
-    try {
-      let selectedModel = model;
-      
-      // Handle auto selection
-      if (model === 'auto') {
-        const randomIndex = Math.floor(Math.random() * AVAILABLE_MODELS.length);
-        selectedModel = AVAILABLE_MODELS[randomIndex];
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  // Per-model status for /api/health; every model is offline without a provider
+  modelHealth(): ModelHealth[] {
+    return this.catalog.aliases().map((model) => {
+      const health = this.health.status(model);
+      return this.isAvailable ? health : { ...health, status: 'offline' };
+    });
+  }
+
+  // Answers with `model`, falling back along the failover chain when it fails.
+  // With a `user`, auto routing and failover stay within the models they may use.
+  async chat(
+    messages: ChatTurn[],
+    model: string,
+    signal?: AbortSignal,
+    generation: GenerationParams = {},
+    user?: ModelUser
+  ): Promise<ChatResult> {
+    const { selectedModel, routing } = this.resolveModel(model, messages, user);
+    const { result, failover } = await this.withFailover(selectedModel, signal, user, (candidate) =>
+      this.callModel(messages, candidate, signal, generation)
+    );
+    return { ...result, routing, ...(failover.length > 0 ? { failover } : {}) };
+  }
+
+  // Compare mode: asks every model concurrently, each with its own timeout.
+  // A failing model yields an answer with `error` set instead of failing the lot,
+  // and there is no failover since each answer must come from its own model.
+  async compare(
+    messages: ChatTurn[],
+    models: string[],
+    generation: GenerationParams = {},
+    timeoutMs = COMPARE_TIMEOUT_MS
+  ): Promise<ModelAnswer[]> {
+    return Promise.all(models.map(async (model): Promise<ModelAnswer> => {
+      // Aborts with the retry layer's TimeoutError so a hung model counts as failing
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs);
+      const signal = controller.signal;
+      const startedAt = Date.now();
+
+      try {
+        const { content, usage } = await this.callModel(messages, model, signal, generation);
+        return { model, content, usage, latencyMs: Date.now() - startedAt };
+      } catch (error) {
+        return {
+          model,
+          content: '',
+          latencyMs: Date.now() - startedAt,
+          error: signal.aborted
+            ? `Timed out after ${timeoutMs}ms`
+            : error instanceof Error ? error.message : 'Unknown error'
+        };
+      } finally {
+        clearTimeout(timer);
+      }
+    }));
+  }
+
+  // Streaming variant of chat: the request is sent eagerly so HTTP errors surface
+  // before the caller starts writing its own response, then tokens are yielded
+  // as the provider emits them.
+  async chatStream(
+    messages: ChatTurn[],
+    model: string,
+    signal?: AbortSignal,
+    generation: GenerationParams = {},
+    user?: ModelUser
+  ): Promise<{
+    modelUsed: string;
+    tokens: AsyncGenerator<string, void>;
+    routing?: RoutingDecision;
+    failover?: FailoverAttempt[];
+    // Available once `tokens` is exhausted
+    usage: () => TokenUsage | undefined;
+  }> {
+    const { selectedModel, routing } = this.resolveModel(model, messages, user);
+    const { result, failover } = await this.withFailover(selectedModel, signal, user, (candidate) =>
+      this.openStream(messages, candidate, signal, generation)
+    );
+
+    return {
+      modelUsed: result.model,
+      tokens: result.stream.tokens,
+      routing,
+      ...(failover.length > 0 ? { failover } : {}),
+      usage: () => this.withCost(result.model, result.stream.usage())
+    };
+  }
+
+  // Fusion mode: drafts from every model the user may use (or `models`), then
+  // one synthesizer call that merges them and cites which model contributed what.
+  async fuse(
+    messages: ChatTurn[],
+    models?: string[],
+    generation: GenerationParams = {},
+    user?: ModelUser
+  ): Promise<FusionChatResult> {
+    const drafts = await this.compare(messages, models ?? this.catalog.aliasesFor(user), generation);
+    const usable = drafts.filter((draft) => !draft.error);
+    if (usable.length === 0) {
+      throw new Error(`All models failed: ${drafts.map((draft) => `${draft.model}: ${draft.error}`).join('; ')}`);
+    }
+
+    const question = [...messages].reverse().find((turn) => turn.role === 'user')?.content ?? '';
+    const draftText = usable.map((draft) => `[${draft.model}]\n${draft.content}`).join('\n\n');
+    // The caller's own system prompt (a persona) still shapes the merged answer
+    const instructions = messages.filter((turn) => turn.role === 'system');
+    // A user barred from the configured synthesizer gets one of their own drafters
+    const synthesizer = this.catalog.has(FUSION_SYNTHESIZER) && this.catalog.allows(FUSION_SYNTHESIZER, user)
+      ? FUSION_SYNTHESIZER
+      : usable[0].model;
+    const synthesis = await this.chat([
+      { role: 'system', content: FUSION_SYSTEM_PROMPT },
+      ...instructions,
+      { role: 'user', content: `Question:\n${question}\n\nDrafts:\n${draftText}` }
+    ], synthesizer, undefined, generation, user);
+
+    const citedModels = usable
+      .map((draft) => draft.model)
+      .filter((model) => synthesis.content.includes(`[${model}]`));
+
+    return {
+      content: synthesis.content,
+      modelUsed: 'fusion',
+      usage: sumUsage([...drafts.map((draft) => draft.usage), synthesis.usage]),
+      // Synthesizers that failed before `fusion.synthesizer` took over
+      ...(synthesis.failover ? { failover: synthesis.failover } : {}),
+      fusion: {
+        drafts,
+        synthesizer: synthesis.modelUsed,
+        citedModels,
+        synthesisUsage: synthesis.usage,
+        synthesisLatencyMs: synthesis.latencyMs
       }
+    };
+  }
 
-      const openRouterModel = MODEL_MAPPINGS[selectedModel as keyof typeof MODEL_MAPPINGS];
-      
-      if (!openRouterModel) {
-        throw new Error(`Unsupported model: ${selectedModel}`);
+  // Asks the model, via tool calling, which automations the user requested.
+  // Tool calls whose arguments fail schema validation are dropped.
+  async extractIntents(message: string, reply: string, user?: ModelUser): Promise<IntentExtraction> {
+    try {
+      const model = this.catalog.has(INTENT_MODEL) && this.catalog.allows(INTENT_MODEL, user)
+        ? INTENT_MODEL
+        : this.catalog.aliasesFor(user)[0];
+      if (!model) {
+        throw new Error('No model available');
       }
+      const messages: ChatTurn[] = [
+        { role: 'system', content: INTENT_SYSTEM_PROMPT },
+        { role: 'user', content: `User message:\n${message}\n\nAssistant reply:\n${reply}` }
+      ];
+      const { result } = await this.withFailover(model, undefined, user, (candidate) =>
+        this.callModel(messages, candidate, undefined, { temperature: 0 }, INTENT_TOOLS)
+      );
+      const { toolCalls, modelUsed, usage, latencyMs } = result;
 
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': process.env.REPLIT_DOMAINS?.split(',')[0] || 'http://localhost:5000',
-          'X-Title': 'AWAKE Meta-AI OS'
-        },
-        body: JSON.stringify({
-          model: openRouterModel,
-          messages: [
-            {
-              role: 'user',
-              content: message
-            }
-          ],
-          max_tokens: 1000,
-          temperature: 0.7
-        })
-      });
+      const intents: AutomationIntent[] = [];
+      for (const call of toolCalls) {
+        let payload: unknown;
+        try {
+          payload = JSON.parse(call.arguments || '{}');
+        } catch {
+          console.warn('Discarding tool call with malformed arguments:', call.name);
+          continue;
+        }
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
+        const parsed = automationIntentSchema.safeParse({ type: call.name, payload });
+        if (parsed.success) {
+          intents.push(parsed.data);
+        } else {
+          console.warn('Discarding invalid automation intent:', call.name, parsed.error.issues);
+        }
       }
+      return { intents, model: modelUsed, usage, latencyMs };
+    } catch (error) {
+      console.error('LLM intent extraction error:', error);
+      throw new Error(`Failed to extract automation intents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async listModels(): Promise<ProviderModel[]> {
+    return this.provider.listModels();
+  }
+
+  // One call to one model alias; timeouts and retries happen in the provider
+  private async callModel(
+    messages: ChatTurn[],
+    model: string,
+    signal?: AbortSignal,
+    generation: GenerationParams = {},
+    tools?: ToolDefinition[]
+  ): Promise<ChatResult & { toolCalls: ToolCall[] }> {
+    this.checkCircuit(model);
+    const startedAt = Date.now();
+
+    try {
+      const { content, toolCalls, usage } = await this.provider.chat({
+        ...this.catalog.clampGeneration(model, generation),
+        model: this.providerModel(model),
+        messages: withJsonInstruction(messages, generation),
+        tools,
+        signal
+      });
+      const latencyMs = Date.now() - startedAt;
+      this.recordCall(model, latencyMs);
 
-      const data: OpenRouterResponse = await response.json();
-      
       return {
-        content: data.choices[0]?.message?.content || 'No response generated',
-        modelUsed: selectedModel
+        content: content || 'No response generated',
+        toolCalls,
+        modelUsed: model,
+        usage: this.withCost(model, usage),
+        latencyMs
       };
-      
+    } catch (caught) {
+      // A caller's timeout (compare mode) fails the model like the retry layer's own
+      const error = signal?.reason instanceof TimeoutError ? signal.reason : caught;
+      const latencyMs = Date.now() - startedAt;
+      this.recordCall(model, latencyMs, error);
+      console.error('LLM provider error:', error);
+      throw new ModelCallError(error instanceof Error ? error.message : 'Unknown error', model, latencyMs, [], isRetryable(error));
+    }
+  }
+
+  // Sends a streaming request eagerly so HTTP errors surface here, where
+  // failover can still pick another model
+  private async openStream(
+    messages: ChatTurn[],
+    model: string,
+    signal?: AbortSignal,
+    generation: GenerationParams = {}
+  ): Promise<{ model: string; stream: CompletionStream }> {
+    this.checkCircuit(model);
+    const startedAt = Date.now();
+
+    try {
+      const stream = await this.provider.stream({
+        ...this.catalog.clampGeneration(model, generation),
+        model: this.providerModel(model),
+        messages: withJsonInstruction(messages, generation),
+        signal
+      });
+      // Latency here is time to first byte, which is what the router cares about
+      this.recordCall(model, Date.now() - startedAt);
+      return { model, stream };
     } catch (error) {
-      console.error('OpenRouter API error:', error);
-      throw new Error(`Failed to get AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (signal?.aborted) {
+        this.health.release(model);
+        throw error;
+      }
+      const latencyMs = Date.now() - startedAt;
+      this.recordCall(model, latencyMs, error);
+      console.error('LLM provider error:', error);
+      throw new ModelCallError(error instanceof Error ? error.message : 'Unknown error', model, latencyMs, [], isRetryable(error));
     }
   }
+
+  // Refuses calls to a model whose circuit is open, so failover moves on at once
+  private checkCircuit(model: string): void {
+    if (!this.health.canCall(model)) {
+      throw new ModelCallError(
+        `Circuit open after repeated failures; retrying in ${this.health.retryAfter(model)}s`,
+        model,
+        0
+      );
+    }
+  }
+
+  // Feeds one call's outcome to both the auto router and the circuit breaker.
+  // Errors the request caused say nothing about the model, so they are left out.
+  private recordCall(model: string, latencyMs: number, error?: unknown): void {
+    if (error && !isRetryable(error)) {
+      this.health.release(model);
+      return;
+    }
+    this.router.record(model, latencyMs, !error);
+    this.health.record(model, latencyMs, !error, error ? (error instanceof Error ? error.message : 'Unknown error') : undefined);
+  }
+
+  // Tries `model`, then the rest of the failover chain in order, until one
+  // answers. Only outages, throttling and timeouts move on to the next model;
+  // cancelled requests and errors the request itself caused are not failed over.
+  private async withFailover<T>(
+    model: string,
+    signal: AbortSignal | undefined,
+    user: ModelUser | undefined,
+    call: (model: string) => Promise<T>
+  ): Promise<{ result: T; failover: FailoverAttempt[] }> {
+    const chain = (this.failoverChain ?? this.catalog.aliases())
+      .filter((candidate) => this.catalog.has(candidate) && this.catalog.allows(candidate, user));
+    const candidates = [model, ...chain.filter((candidate) => candidate !== model)];
+    const failover: FailoverAttempt[] = [];
+
+    for (const candidate of candidates) {
+      try {
+        return { result: await call(candidate), failover };
+      } catch (error) {
+        if (signal?.aborted || !(error instanceof ModelCallError)) {
+          throw error;
+        }
+        if (!error.retryable) {
+          throw new ModelCallError(error.message, candidate, error.latencyMs, failover, false);
+        }
+        failover.push({ model: candidate, error: error.message, latencyMs: error.latencyMs });
+        console.warn(`Model ${candidate} failed:`, error.message);
+      }
+    }
+
+    const last = failover.pop()!;
+    const reasons = failover.length > 0
+      ? [...failover, last].map((attempt) => `${attempt.model}: ${attempt.error}`).join('; ')
+      : last.error;
+    throw new ModelCallError(`Failed to get AI response: ${reasons}`, last.model, last.latencyMs, failover);
+  }
+
+  private providerModel(model: string): string {
+    const entry = this.catalog.get(model);
+    if (!entry) {
+      throw new Error(`Unsupported model: ${model}`);
+    }
+    return entry.id;
+  }
+
+  private withCost(model: string, usage: TokenUsage | undefined): TokenUsage | undefined {
+    return usage && { ...usage, costUsd: this.catalog.estimateCostUsd(model, usage) };
+  }
+
+  private resolveModel(
+    model: string,
+    messages: ChatTurn[],
+    user?: ModelUser
+  ): { selectedModel: string; routing?: RoutingDecision } {
+    let selectedModel = model;
+    let routing: RoutingDecision | undefined;
+    
+    // Handle auto selection
+    if (model === 'auto') {
+      routing = this.router.route(messages, this.catalog.aliasesFor(user));
+      selectedModel = routing.model;
+    }
+
+    if (!this.catalog.has(selectedModel) || !this.catalog.allows(selectedModel, user)) {
+      throw new Error(`Unsupported model: ${selectedModel}`);
+    }
+
+    return { selectedModel, routing };
+  }
 }
+
+export const openRouterService = new OpenRouterService();
@@ -0,0 +1,386 @@
+import type { ChatTurn, GenerationParams, ModelPricing, TokenUsage } from "@shared/types";
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: string;
+}
+
+// A non-2xx answer from the LLM server; the status tells throttling and
+// outages apart from bad requests
+export class ProviderError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export interface CompletionRequest extends GenerationParams {
+  model: string;
+  messages: ChatTurn[];
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  content: string;
+  toolCalls: ToolCall[];
+  usage?: TokenUsage;
+}
+
+// Tokens are yielded as they arrive; usage is only known once the stream has
+// been read to the end, and not every server reports it
+export interface CompletionStream {
+  tokens: AsyncGenerator<string, void>;
+  usage(): TokenUsage | undefined;
+}
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+  contextLength?: number;
+  maxOutputTokens?: number;
+  pricing?: ModelPricing;
+}
+
+// The `/models` response as OpenRouter sends it; plain OpenAI-compatible
+// servers only fill in `id`
+export interface ModelListResponse {
+  data: {
+    id: string;
+    name?: string;
+    context_length?: number | null;
+    // USD per token, as decimal strings; "-1" marks a variable price
+    pricing?: { prompt?: string; completion?: string };
+    top_provider?: { max_completion_tokens?: number | null };
+  }[];
+}
+
+// USD per token to USD per million tokens, rounded off the float noise
+function perMillion(price: string | undefined): number | undefined {
+  const value = Number(price);
+  return price !== undefined && Number.isFinite(value) && value >= 0 ? Math.round(value * 1e12) / 1e6 : undefined;
+}
+
+export function parseModelList(response: ModelListResponse): ProviderModel[] {
+  return response.data.map((model) => {
+    const prompt = perMillion(model.pricing?.prompt);
+    const completion = perMillion(model.pricing?.completion);
+    const maxOutputTokens = model.top_provider?.max_completion_tokens;
+    return {
+      id: model.id,
+      name: model.name ?? model.id,
+      ...(model.context_length ? { contextLength: model.context_length } : {}),
+      ...(maxOutputTokens ? { maxOutputTokens } : {}),
+      ...(prompt !== undefined && completion !== undefined ? { pricing: { prompt, completion } } : {})
+    };
+  });
+}
+
+// Everything the app needs from an LLM backend. Model ids passed in are the
+// provider-level ids (e.g. `openai/gpt-4o`), not the app's aliases.
+export interface LLMProvider {
+  readonly name: string;
+  readonly isAvailable: boolean;
+  chat(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): Promise<CompletionStream>;
+  listModels(): Promise<ProviderModel[]>;
+}
+
+interface ChatCompletionResponse {
+  choices: {
+    message: {
+      content: string | null;
+      tool_calls?: {
+        type: 'function';
+        function: { name: string; arguments: string };
+      }[];
+    };
+  }[];
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // OpenRouter only, when usage accounting is requested: USD charged
+  cost?: number;
+}
+
+interface ChatCompletionChunk {
+  choices: {
+    delta: {
+      content?: string | null;
+    };
+  }[];
+  // Sent on the final chunk when `stream_options.include_usage` is set
+  usage?: ChatCompletionUsage | null;
+}
+
+function toTokenUsage(usage: ChatCompletionUsage): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+    ...(typeof usage.cost === 'number' ? { costUsd: usage.cost } : {})
+  };
+}
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  // Sends every request to this model, e.g. the single model a local
+  // llama.cpp or Ollama server has loaded
+  model?: string;
+  headers?: Record<string, string>;
+  // Extra fields merged into every chat completion request body
+  body?: Record<string, unknown>;
+}
+
+// Works against any server exposing the OpenAI `/chat/completions` and
+// `/models` endpoints.
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string = 'openai-compatible';
+  readonly isAvailable: boolean;
+
+  constructor(protected options: OpenAICompatibleOptions) {
+    this.isAvailable = !!options.baseUrl;
+  }
+
+  async chat(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(request, false);
+    const data: ChatCompletionResponse = await response.json();
+    const message = data.choices[0]?.message;
+
+    return {
+      content: message?.content || '',
+      toolCalls: (message?.tool_calls ?? []).map((call) => ({
+        name: call.function.name,
+        arguments: call.function.arguments
+      })),
+      usage: data.usage && toTokenUsage(data.usage)
+    };
+  }
+
+  async stream(request: CompletionRequest): Promise<CompletionStream> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error(`${this.name} returned an empty stream`);
+    }
+
+    const state: { usage?: TokenUsage } = {};
+    return {
+      tokens: this.readTokens(response.body, state),
+      usage: () => state.usage
+    };
+  }
+
+  async listModels(): Promise<ProviderModel[]> {
+    const response = await fetch(`${this.baseUrl}/models`, { headers: this.headers() });
+    if (!response.ok) {
+      const error = await response.text();
+      throw new ProviderError(
+        `${this.name} API error: ${response.status} - ${error}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return parseModelList(await response.json());
+  }
+
+  protected get baseUrl(): string {
+    return this.options.baseUrl.replace(/\/$/, '');
+  }
+
+  protected headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.options.apiKey ? { 'Authorization': `Bearer ${this.options.apiKey}` } : {}),
+      ...this.options.headers
+    };
+  }
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    if (!this.isAvailable) {
+      throw new Error(`${this.name} provider is not configured. Please check your environment variables.`);
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.options.model || request.model,
+        messages: request.messages,
+        // Without max_tokens the server lets the model run to its own output limit
+        ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+        temperature: request.temperature ?? 0.7,
+        ...(request.topP !== undefined ? { top_p: request.topP } : {}),
+        ...(request.stop ? { stop: request.stop } : {}),
+        ...(request.seed !== undefined ? { seed: request.seed } : {}),
+        ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+        ...(request.tools ? { tools: request.tools, tool_choice: 'auto' } : {}),
+        ...this.options.body,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new ProviderError(
+        `${this.name} API error: ${response.status} - ${error}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return response;
+  }
+
+  private async *readTokens(
+    body: ReadableStream<Uint8Array>,
+    state: { usage?: TokenUsage }
+  ): AsyncGenerator<string, void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          // OpenRouter sends ": OPENROUTER PROCESSING" comments as keep-alives
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') return;
+
+          const chunk: ChatCompletionChunk = JSON.parse(payload);
+          if (chunk.usage) {
+            state.usage = toTokenUsage(chunk.usage);
+          }
+          const content = chunk.choices[0]?.delta?.content;
+          if (content) {
+            yield content;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly name = 'openrouter';
+  readonly isAvailable: boolean;
+
+  constructor(apiKey: string) {
+    super({
+      baseUrl: 'https://openrouter.ai/api/v1',
+      apiKey,
+      headers: {
+        'HTTP-Referer': process.env.REPLIT_DOMAINS?.split(',')[0] || 'http://localhost:5000',
+        'X-Title': 'AWAKE Meta-AI OS'
+      },
+      // Makes OpenRouter report what each call actually cost
+      body: { usage: { include: true } }
+    });
+    this.isAvailable = !!apiKey;
+  }
+}
+
+// Rough whitespace-token count so mock responses still carry usage figures
+function estimateUsage(request: CompletionRequest, content: string): TokenUsage {
+  const count = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  const promptTokens = request.messages.reduce((sum, turn) => sum + count(turn.content), 0);
+  const completionTokens = count(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export type MockResponder = (request: CompletionRequest) => CompletionResult;
+
+// Deterministic in-process provider for tests and air-gapped machines. By
+// default it echoes the last user message back, tagged with the model id.
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly isAvailable = true;
+
+  constructor(
+    private responder: MockResponder = (request) => ({
+      content: `[${request.model}] ${[...request.messages].reverse().find((turn) => turn.role === 'user')?.content ?? ''}`,
+      toolCalls: []
+    }),
+    private models: ProviderModel[] = []
+  ) {}
+
+  async chat(request: CompletionRequest): Promise<CompletionResult> {
+    const result = this.responder(request);
+    return { ...result, usage: result.usage ?? estimateUsage(request, result.content) };
+  }
+
+  async stream(request: CompletionRequest): Promise<CompletionStream> {
+    const result = this.responder(request);
+    return {
+      tokens: (async function* () {
+        // Split on word boundaries but keep the whitespace so tokens rejoin exactly
+        for (const token of result.content.match(/\S+\s*|\s+/g) ?? []) {
+          // Fails the way a cancelled fetch body does
+          request.signal?.throwIfAborted();
+          yield token;
+        }
+      })(),
+      usage: () => result.usage ?? estimateUsage(request, result.content)
+    };
+  }
+
+  async listModels(): Promise<ProviderModel[]> {
+    return this.models;
+  }
+}
+
+// Picks the backend from LLM_PROVIDER: `openrouter` (default),
+// `openai-compatible` (LLM_BASE_URL, LLM_API_KEY, LLM_MODEL) or `mock`.
+export function createProvider(): LLMProvider {
+  switch (process.env.LLM_PROVIDER || 'openrouter') {
+    case 'mock':
+      return new MockProvider();
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || '',
+        apiKey: process.env.LLM_API_KEY,
+        model: process.env.LLM_MODEL
+      });
+    case 'openrouter':
+      return new OpenRouterProvider(process.env.OPENROUTER_API_KEY || '');
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${process.env.LLM_PROVIDER}`);
+  }
+}
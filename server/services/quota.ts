@@ -0,0 +1,67 @@
+import type { QuotaStatus } from "@shared/types";
+import type { IStorage } from "../storage";
+
+export interface QuotaLimits {
+  // Undefined means no limit
+  dailyTokens?: number;
+  dailyCostUsd?: number;
+}
+
+function utcDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+// Daily token and cost allowances per user. Totals live in IStorage so they
+// survive restarts and are shared between instances when Postgres is used.
+export class QuotaService {
+  constructor(private storage: IStorage, private limits: QuotaLimits) {}
+
+  async status(userId: string, now = new Date()): Promise<QuotaStatus> {
+    const day = utcDay(now);
+    const usage = await this.storage.getDailyUsage(userId, day);
+    return this.toStatus(day, usage.tokens, usage.costUsd, now);
+  }
+
+  // True once either allowance is used up; the request that crosses the line
+  // is allowed to finish, so totals may end slightly over the limit
+  isExceeded(status: QuotaStatus): boolean {
+    return (status.tokenLimit !== null && status.tokensUsed >= status.tokenLimit)
+      || (status.costLimitUsd !== null && status.costUsd >= status.costLimitUsd);
+  }
+
+  async record(userId: string, tokens: number, costUsd: number, now = new Date()): Promise<QuotaStatus> {
+    const day = utcDay(now);
+    const usage = await this.storage.addDailyUsage(userId, day, tokens, costUsd);
+    return this.toStatus(day, usage.tokens, usage.costUsd, now);
+  }
+
+  private toStatus(day: string, tokensUsed: number, costUsd: number, now: Date): QuotaStatus {
+    return {
+      day,
+      tokensUsed,
+      tokenLimit: this.limits.dailyTokens ?? null,
+      costUsd,
+      costLimitUsd: this.limits.dailyCostUsd ?? null,
+      resetsAt: nextUtcMidnight(now).toISOString()
+    };
+  }
+}
+
+function positive(value: string | undefined, fallback: number): number | undefined {
+  const parsed = parseFloat(value ?? '');
+  if (!Number.isFinite(parsed)) return fallback;
+  // 0 switches the limit off
+  return parsed > 0 ? parsed : undefined;
+}
+
+// QUOTA_DAILY_TOKENS and QUOTA_DAILY_COST_USD; set either to 0 to disable it
+export function loadQuotaLimits(): QuotaLimits {
+  return {
+    dailyTokens: positive(process.env.QUOTA_DAILY_TOKENS, 200000),
+    dailyCostUsd: positive(process.env.QUOTA_DAILY_COST_USD, 2)
+  };
+}
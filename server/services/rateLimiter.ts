@@ -0,0 +1,117 @@
+export interface BucketOptions {
+  // Requests allowed in a burst
+  capacity: number;
+  // Requests refilled per minute
+  refillPerMinute: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Classic token bucket keyed by caller. Buckets that have refilled completely
+// carry no information, so they are dropped once the map grows large.
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private options: BucketOptions, private maxKeys = 10000) {}
+
+  // Takes one token for `key`; returns 0 when allowed, otherwise the number of
+  // seconds until a token becomes available
+  take(key: string, now = Date.now()): number {
+    const { capacity, refillPerMinute } = this.options;
+    const perMs = refillPerMinute / 60000;
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens < 1) {
+      this.buckets.set(key, bucket);
+      return Math.max(1, Math.ceil((1 - bucket.tokens) / perMs / 1000));
+    }
+
+    bucket.tokens -= 1;
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > this.maxKeys) {
+      this.prune(now);
+    }
+    return 0;
+  }
+
+  private prune(now: number): void {
+    const perMs = this.options.refillPerMinute / 60000;
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.tokens + (now - bucket.updatedAt) * perMs >= this.options.capacity) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+export interface RateLimitOptions {
+  ip: BucketOptions;
+  user: BucketOptions;
+  apiKey: BucketOptions;
+}
+
+export interface RateLimitKeys {
+  ip?: string;
+  userId?: string;
+  apiKeyId?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds to wait, for the Retry-After header
+  retryAfter: number;
+  // Which limit was hit
+  scope?: keyof RateLimitOptions;
+}
+
+// Applies the per-IP limit to everyone, then the per-user limit to session
+// callers or the per-key limit to API key callers.
+export class RateLimiter {
+  private ip: TokenBucketLimiter;
+  private user: TokenBucketLimiter;
+  private apiKey: TokenBucketLimiter;
+
+  constructor(options: RateLimitOptions) {
+    this.ip = new TokenBucketLimiter(options.ip);
+    this.user = new TokenBucketLimiter(options.user);
+    this.apiKey = new TokenBucketLimiter(options.apiKey);
+  }
+
+  check(keys: RateLimitKeys): RateLimitResult {
+    const checks: Array<[keyof RateLimitOptions, TokenBucketLimiter, string | undefined]> = [
+      ['ip', this.ip, keys.ip],
+      keys.apiKeyId ? ['apiKey', this.apiKey, keys.apiKeyId] : ['user', this.user, keys.userId]
+    ];
+
+    for (const [scope, limiter, key] of checks) {
+      if (!key) continue;
+      const retryAfter = limiter.take(key);
+      if (retryAfter > 0) {
+        return { allowed: false, retryAfter, scope };
+      }
+    }
+    return { allowed: true, retryAfter: 0 };
+  }
+}
+
+function perMinute(name: string, fallback: number): BucketOptions {
+  const value = parseInt(process.env[name] || '', 10);
+  const rate = Number.isFinite(value) && value > 0 ? value : fallback;
+  return { capacity: rate, refillPerMinute: rate };
+}
+
+// RATE_LIMIT_IP_PER_MINUTE, RATE_LIMIT_USER_PER_MINUTE and
+// RATE_LIMIT_API_KEY_PER_MINUTE set both the burst size and the refill rate
+export function loadRateLimitOptions(): RateLimitOptions {
+  return {
+    ip: perMinute('RATE_LIMIT_IP_PER_MINUTE', 60),
+    user: perMinute('RATE_LIMIT_USER_PER_MINUTE', 20),
+    apiKey: perMinute('RATE_LIMIT_API_KEY_PER_MINUTE', 60)
+  };
+}
@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import type { CachedResponse } from "@shared/schema";
+import type { ChatTurn, GenerationParams } from "@shared/types";
+import type { IStorage } from "../storage";
+
+export interface CachedAnswer {
+  content: string;
+  // The alias that answered
+  model: string;
+}
+
+// Where cached answers live; neither returns an expired entry
+export interface ResponseCacheBackend {
+  get(key: string, now: Date): Promise<CachedResponse | undefined>;
+  set(entry: CachedResponse): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  backend: 'memory' | 'storage';
+  // How long an answer is served from the cache
+  ttlMs: number;
+  maxEntries: number;
+  // Longer answers are not cached
+  maxEntryChars: number;
+}
+
+// Per-instance cache that evicts the least recently used entry once full
+export class MemoryCacheBackend implements ResponseCacheBackend {
+  private entries = new Map<string, CachedResponse>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string, now: Date): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= now) return undefined;
+    // Maps iterate in insertion order, so re-inserting marks the entry as recently used
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    Array.from(this.entries.keys())
+      .slice(0, Math.max(0, this.entries.size - this.maxEntries))
+      .forEach((key) => this.entries.delete(key));
+  }
+}
+
+// Cache in IStorage, shared between instances and kept across restarts when
+// Postgres is used. Every write prunes expired entries and the oldest beyond the limit.
+export class StorageCacheBackend implements ResponseCacheBackend {
+  constructor(private storage: IStorage, private maxEntries: number) {}
+
+  get(key: string, now: Date): Promise<CachedResponse | undefined> {
+    return this.storage.getCachedResponse(key, now);
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    await this.storage.saveCachedResponse(entry);
+    await this.storage.pruneCachedResponses(entry.createdAt, this.maxEntries);
+  }
+}
+
+// Collapses the whitespace differences that do not change what is asked
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+// Answers to identical prompts, so asking the same thing again does not call
+// the model. A cache failure is logged and treated as a miss, never as a
+// failed request.
+export class ResponseCache {
+  constructor(private backend: ResponseCacheBackend, private options: ResponseCacheOptions) {}
+
+  // The same conversation, model, sampling settings and system prompt give
+  // the same key. `model` should be the provider's model id where there is
+  // one, so retargeting an alias does not serve the old model's answers.
+  key(turns: ChatTurn[], model: string, generation: GenerationParams): string {
+    const system = turns.filter((turn) => turn.role === 'system').map((turn) => normalize(turn.content));
+    const prompt = turns
+      .filter((turn) => turn.role !== 'system')
+      .map((turn) => [turn.role, normalize(turn.content)]);
+    const params = Object.entries(generation)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return createHash('sha256').update(JSON.stringify({ prompt, model, params, system })).digest('hex');
+  }
+
+  async get(key: string, now = new Date()): Promise<CachedAnswer | undefined> {
+    try {
+      const entry = await this.backend.get(key, now);
+      return entry && { content: entry.content, model: entry.model };
+    } catch (error) {
+      console.error('Response cache lookup failed:', error);
+      return undefined;
+    }
+  }
+
+  async set(key: string, answer: CachedAnswer, now = new Date()): Promise<void> {
+    if (!answer.content || answer.content.length > this.options.maxEntryChars) return;
+    try {
+      await this.backend.set({
+        key,
+        ...answer,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + this.options.ttlMs)
+      });
+    } catch (error) {
+      console.error('Failed to cache response:', error);
+    }
+  }
+}
+
+// Undefined while the cache is switched off
+export function createResponseCache(
+  storage: IStorage,
+  options: ResponseCacheOptions | undefined
+): ResponseCache | undefined {
+  if (!options) return undefined;
+  const backend = options.backend === 'storage'
+    ? new StorageCacheBackend(storage, options.maxEntries)
+    : new MemoryCacheBackend(options.maxEntries);
+  return new ResponseCache(backend, options);
+}
+
+function positiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// RESPONSE_CACHE=memory or storage switches the cache on; RESPONSE_CACHE_TTL_MS,
+// RESPONSE_CACHE_MAX_ENTRIES and RESPONSE_CACHE_MAX_ENTRY_CHARS set its limits
+export function loadResponseCacheOptions(): ResponseCacheOptions | undefined {
+  const backend = process.env.RESPONSE_CACHE;
+  if (!backend || backend === 'off') return undefined;
+  if (backend !== 'memory' && backend !== 'storage') {
+    console.error(`Invalid RESPONSE_CACHE ${backend}, expected memory or storage; caching is off`);
+    return undefined;
+  }
+  return {
+    backend,
+    ttlMs: positiveInt('RESPONSE_CACHE_TTL_MS', 3_600_000),
+    maxEntries: positiveInt('RESPONSE_CACHE_MAX_ENTRIES', 1000),
+    maxEntryChars: positiveInt('RESPONSE_CACHE_MAX_ENTRY_CHARS', 20000)
+  };
+}
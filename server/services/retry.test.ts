@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MockProvider, ProviderError, type CompletionRequest, type CompletionStream } from "./providers";
+import { RetryingProvider, TimeoutError, withRetry, type RetryOptions } from "./retry";
+
+const OPTIONS: RetryOptions = { retries: 2, timeoutMs: 1000, idleTimeoutMs: 50, baseDelayMs: 1, maxDelayMs: 1 };
+const REQUEST: CompletionRequest = { model: "openai/gpt-4o", messages: [{ role: "user", content: "Hi" }] };
+
+// Resolves when `signal` aborts, rejecting with its reason like a cancelled fetch
+function untilAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => signal.addEventListener("abort", () => reject(signal.reason), { once: true }));
+}
+
+// A provider whose stream sends `first`, then stalls until it is aborted
+class StallingProvider extends MockProvider {
+  signal?: AbortSignal;
+
+  async stream(request: CompletionRequest): Promise<CompletionStream> {
+    this.signal = request.signal;
+    return {
+      tokens: (async function* () {
+        yield "first ";
+        await untilAborted(request.signal!);
+      })(),
+      usage: () => undefined,
+    };
+  }
+}
+
+async function collect(tokens: AsyncGenerator<string, void>): Promise<string[]> {
+  const seen: string[] = [];
+  for await (const token of tokens) seen.push(token);
+  return seen;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("withRetry", () => {
+  it("retries transient errors and stops listening to the caller's signal after each attempt", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const parent = new AbortController();
+    const added = vi.spyOn(parent.signal, "addEventListener");
+    const removed = vi.spyOn(parent.signal, "removeEventListener");
+    const call = vi.fn()
+      .mockRejectedValueOnce(new ProviderError("busy", 503))
+      .mockResolvedValueOnce("ok");
+
+    expect(await withRetry(call, OPTIONS, parent.signal)).toBe("ok");
+    expect(call).toHaveBeenCalledTimes(2);
+    // The backoff sleep listens too; nothing may stay attached once it is over
+    const listeners = (spy: typeof added) => spy.mock.calls.map(([, listener]) => listener);
+    expect(added).toHaveBeenCalled();
+    expect(listeners(removed)).toEqual(expect.arrayContaining(listeners(added)));
+  });
+
+  it("does not retry errors the request caused", async () => {
+    const call = vi.fn().mockRejectedValue(new ProviderError("bad request", 400));
+    await expect(withRetry(call, OPTIONS)).rejects.toThrow("bad request");
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("RetryingProvider.stream", () => {
+  it("cuts off a stream that stalls after it has started", async () => {
+    const inner = new StallingProvider();
+    const stream = await new RetryingProvider(inner, OPTIONS).stream(REQUEST);
+
+    const seen: string[] = [];
+    const error = await (async () => {
+      try {
+        for await (const token of stream.tokens) seen.push(token);
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(seen).toEqual(["first "]);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(inner.signal?.aborted).toBe(true);
+  });
+
+  it("still cancels the stream when the caller aborts mid-answer, then lets go of its signal", async () => {
+    const inner = new StallingProvider();
+    const parent = new AbortController();
+    const removed = vi.spyOn(parent.signal, "removeEventListener");
+    const stream = await new RetryingProvider(inner, { ...OPTIONS, idleTimeoutMs: 1000 }).stream({
+      ...REQUEST,
+      signal: parent.signal,
+    });
+    expect(removed).not.toHaveBeenCalled();
+
+    const reading = collect(stream.tokens);
+    setTimeout(() => parent.abort(), 10);
+    await expect(reading).rejects.toThrow();
+    expect(inner.signal?.aborted).toBe(true);
+    expect(removed).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes a healthy stream through unchanged", async () => {
+    const stream = await new RetryingProvider(new MockProvider(), OPTIONS).stream(REQUEST);
+    expect((await collect(stream.tokens)).join("")).toBe("[openai/gpt-4o] Hi");
+  });
+});
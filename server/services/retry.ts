@@ -0,0 +1,187 @@
+import { setTimeout as sleep } from "timers/promises";
+import {
+  ProviderError,
+  type CompletionRequest,
+  type CompletionResult,
+  type CompletionStream,
+  type LLMProvider,
+  type ProviderModel
+} from "./providers";
+
+export interface RetryOptions {
+  // Extra attempts after the first one fails
+  retries: number;
+  // Per attempt; for streams, the time until the response starts
+  timeoutMs: number;
+  // Longest wait for a stream's next token once it has started
+  idleTimeoutMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Thrown when an attempt runs past RetryOptions.timeoutMs
+export class TimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Throttling, timeouts and upstream outages are worth another try; anything
+// else (bad request, auth, unknown model) would fail the same way again
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof ProviderError) return RETRYABLE_STATUSES.has(error.status);
+  // fetch rejects with a TypeError when the connection itself fails
+  return error instanceof TypeError;
+}
+
+// Exponential backoff with full jitter, so clients throttled together do not
+// retry together; a Retry-After from the server wins when it is longer
+export function backoffDelay(attempt: number, options: RetryOptions, error?: unknown, random = Math.random): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  const delay = Math.round(random() * ceiling);
+  const retryAfter = error instanceof ProviderError ? error.retryAfterMs : undefined;
+  return retryAfter !== undefined ? Math.min(Math.max(delay, retryAfter), options.maxDelayMs) : delay;
+}
+
+// Takes over an attempt's signal once it has succeeded, e.g. to cancel a
+// stream's body later on; it must call `unlink` once the result is finished with
+export type AdoptAttempt<T> = (result: T, controller: AbortController, unlink: () => void) => T;
+
+// Runs one attempt with a signal that aborts when the caller's does or when the
+// timeout passes. The caller's abort stops being forwarded when the attempt
+// ends, unless `adopt` takes the signal over.
+async function attempt<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parent?: AbortSignal,
+  adopt?: AdoptAttempt<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs);
+  const forward = () => controller.abort(parent!.reason);
+  const unlink = () => parent?.removeEventListener('abort', forward);
+  parent?.addEventListener('abort', forward, { once: true });
+  let adopted = false;
+
+  try {
+    const result = await call(controller.signal);
+    if (!adopt) return result;
+    adopted = true;
+    return adopt(result, controller, unlink);
+  } catch (error) {
+    if (controller.signal.reason instanceof TimeoutError && !parent?.aborted) {
+      throw controller.signal.reason;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    if (!adopted) unlink();
+  }
+}
+
+export async function withRetry<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal,
+  adopt?: AdoptAttempt<T>
+): Promise<T> {
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    try {
+      return await attempt(call, options.timeoutMs, signal, adopt);
+    } catch (error) {
+      if (signal?.aborted || attemptIndex >= options.retries || !isRetryable(error)) {
+        throw error;
+      }
+      const delay = backoffDelay(attemptIndex, options, error);
+      console.warn(`LLM call failed, retrying in ${delay}ms:`, error instanceof Error ? error.message : error);
+      await sleep(delay, undefined, { signal });
+    }
+  }
+}
+
+// Passes a stream's tokens through, aborting the stream with a TimeoutError when
+// the next token takes longer than `idleTimeoutMs`, so a stalled upstream
+// cannot hold the request open forever
+async function* withIdleTimeout(
+  tokens: AsyncGenerator<string, void>,
+  idleTimeoutMs: number,
+  controller: AbortController,
+  unlink: () => void
+): AsyncGenerator<string, void> {
+  try {
+    while (true) {
+      const timer = setTimeout(() => controller.abort(new TimeoutError(idleTimeoutMs)), idleTimeoutMs);
+      let next: IteratorResult<string, void>;
+      try {
+        next = await tokens.next();
+      } catch (error) {
+        throw controller.signal.reason instanceof TimeoutError ? controller.signal.reason : error;
+      } finally {
+        clearTimeout(timer);
+      }
+      if (next.done) return;
+      yield next.value;
+    }
+  } finally {
+    unlink();
+    // Closes the upstream stream when the caller stops reading early
+    await tokens.return();
+  }
+}
+
+// Wraps any provider with per-attempt timeouts and retries on transient errors.
+// Streams are only retried until the response starts; after that each token
+// must arrive within the idle timeout, and a stream that breaks halfway is
+// left to the caller.
+export class RetryingProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private options: RetryOptions) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get isAvailable(): boolean {
+    return this.inner.isAvailable;
+  }
+
+  chat(request: CompletionRequest): Promise<CompletionResult> {
+    return withRetry((signal) => this.inner.chat({ ...request, signal }), this.options, request.signal);
+  }
+
+  stream(request: CompletionRequest): Promise<CompletionStream> {
+    return withRetry(
+      (signal) => this.inner.stream({ ...request, signal }),
+      this.options,
+      request.signal,
+      (stream, controller, unlink) => ({
+        ...stream,
+        tokens: withIdleTimeout(stream.tokens, this.options.idleTimeoutMs, controller, unlink)
+      })
+    );
+  }
+
+  listModels(): Promise<ProviderModel[]> {
+    return this.inner.listModels();
+  }
+}
+
+function nonNegative(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// MODEL_TIMEOUT_MS, MODEL_STREAM_IDLE_TIMEOUT_MS, MODEL_RETRIES,
+// MODEL_RETRY_BASE_DELAY_MS and MODEL_RETRY_MAX_DELAY_MS
+export function loadRetryOptions(): RetryOptions {
+  return {
+    retries: nonNegative('MODEL_RETRIES', 2),
+    timeoutMs: nonNegative('MODEL_TIMEOUT_MS', 60000) || 60000,
+    idleTimeoutMs: nonNegative('MODEL_STREAM_IDLE_TIMEOUT_MS', 30000) || 30000,
+    baseDelayMs: nonNegative('MODEL_RETRY_BASE_DELAY_MS', 500),
+    maxDelayMs: nonNegative('MODEL_RETRY_MAX_DELAY_MS', 8000)
+  };
+}
@@ -0,0 +1,144 @@
+import type { ChatTurn, ModelPricing, RequestCategory, RoutingDecision } from "@shared/types";
+
+export type RoutingRules = Record<RequestCategory, string[]>;
+
+export interface ModelRouterOptions {
+  // Read on every decision, so models added to or dropped from the catalog apply at once
+  models: () => string[];
+  pricing: (model: string) => ModelPricing | null | undefined;
+  rules: RoutingRules;
+  // Models whose completion price per million tokens exceeds this are skipped
+  maxCompletionCost?: number;
+  // Models whose recent average latency exceeds this are skipped
+  maxLatencyMs: number;
+  // Models failing at least this share of recent calls are skipped
+  maxErrorRate: number;
+  // How many recent calls per model feed the latency and error figures
+  window: number;
+}
+
+interface CallSample {
+  latencyMs: number;
+  ok: boolean;
+}
+
+export const DEFAULT_ROUTING_RULES: RoutingRules = {
+  code: ['claude', 'gpt', 'llama'],
+  'long-context': ['claude', 'gpt', 'llama'],
+  creative: ['gpt', 'claude', 'llama'],
+  'small-talk': ['llama', 'gpt', 'claude'],
+  general: ['gpt', 'claude', 'llama']
+};
+
+const LONG_CONTEXT_CHARS = 12000;
+const SMALL_TALK_CHARS = 60;
+
+const CODE_PATTERN = /```|\b(function|class|const|def|import|compile|stack ?trace|exception|bug|debug|refactor|regex|sql|typescript|javascript|python|rust|golang|java|api|endpoint)\b|[{};]\s*$/im;
+const CREATIVE_PATTERN = /\b(poem|story|stories|lyrics|song|haiku|slogan|tagline|imagine|fiction|creative|brainstorm|joke)\b/i;
+const SMALL_TALK_PATTERN = /^\s*(hi|hello|hey|yo|thanks|thank you|good (morning|afternoon|evening)|how are you|what'?s up|ok|okay|cool|bye)\b/i;
+
+export function classifyRequest(messages: ChatTurn[]): RequestCategory {
+  const totalChars = messages.reduce((sum, turn) => sum + turn.content.length, 0);
+  const latest = [...messages].reverse().find((turn) => turn.role === 'user')?.content ?? '';
+
+  if (totalChars > LONG_CONTEXT_CHARS) return 'long-context';
+  if (CODE_PATTERN.test(latest)) return 'code';
+  if (CREATIVE_PATTERN.test(latest)) return 'creative';
+  if (latest.length <= SMALL_TALK_CHARS && SMALL_TALK_PATTERN.test(latest)) return 'small-talk';
+  return 'general';
+}
+
+// Picks a model for `auto` requests: the request is classified, the rule for
+// that category gives an order of preference, and models that are too
+// expensive, too slow or failing too often are skipped.
+export class ModelRouter {
+  private samples = new Map<string, CallSample[]>();
+
+  constructor(private options: ModelRouterOptions) {}
+
+  // `models` narrows the choice, e.g. to the models the caller may use
+  route(messages: ChatTurn[], models = this.options.models()): RoutingDecision {
+    const category = classifyRequest(messages);
+    const preferred = this.options.rules[category].filter((model) => models.includes(model));
+    const candidates = preferred.length > 0 ? preferred : models;
+
+    const skipped: string[] = [];
+    for (const model of candidates) {
+      const problem = this.checkModel(model);
+      if (!problem) {
+        const note = skipped.length > 0 ? ` (skipped ${skipped.join(', ')})` : '';
+        return { model, category, reason: `${category} request routed to ${model}${note}` };
+      }
+      skipped.push(`${model}: ${problem}`);
+    }
+
+    // Everything was filtered out; fall back to the top preference rather than failing
+    const model = candidates[0];
+    return {
+      model,
+      category,
+      reason: `${category} request routed to ${model}; no model met the routing limits (${skipped.join(', ')})`
+    };
+  }
+
+  record(model: string, latencyMs: number, ok: boolean): void {
+    const samples = this.samples.get(model) ?? [];
+    samples.push({ latencyMs, ok });
+    if (samples.length > this.options.window) {
+      samples.shift();
+    }
+    this.samples.set(model, samples);
+  }
+
+  private checkModel(model: string): string | undefined {
+    const pricing = this.options.pricing(model);
+    if (this.options.maxCompletionCost !== undefined && pricing && pricing.completion > this.options.maxCompletionCost) {
+      return `$${pricing.completion}/M tokens over cost ceiling`;
+    }
+
+    const samples = this.samples.get(model) ?? [];
+    // A couple of calls say little, so only judge models with some history
+    if (samples.length < 3) return undefined;
+
+    const errorRate = samples.filter((sample) => !sample.ok).length / samples.length;
+    if (errorRate >= this.options.maxErrorRate) {
+      return `${Math.round(errorRate * 100)}% recent errors`;
+    }
+
+    const succeeded = samples.filter((sample) => sample.ok);
+    const averageLatency = succeeded.reduce((sum, sample) => sum + sample.latencyMs, 0) / Math.max(succeeded.length, 1);
+    if (averageLatency > this.options.maxLatencyMs) {
+      return `${Math.round(averageLatency)}ms average latency`;
+    }
+
+    return undefined;
+  }
+}
+
+// Reads routing limits from the environment; MODEL_ROUTING_RULES may override
+// the preference order per category as JSON, e.g. {"code":["gpt","claude"]}.
+export function loadRoutingOptions(
+  models: ModelRouterOptions['models'],
+  pricing: ModelRouterOptions['pricing']
+): ModelRouterOptions {
+  let rules = DEFAULT_ROUTING_RULES;
+  if (process.env.MODEL_ROUTING_RULES) {
+    try {
+      rules = { ...DEFAULT_ROUTING_RULES, ...JSON.parse(process.env.MODEL_ROUTING_RULES) };
+    } catch (error) {
+      console.error('Invalid MODEL_ROUTING_RULES, using defaults:', error);
+    }
+  }
+
+  const maxCost = parseFloat(process.env.MODEL_ROUTING_MAX_COST || '');
+
+  return {
+    models,
+    pricing,
+    rules,
+    maxCompletionCost: Number.isFinite(maxCost) ? maxCost : undefined,
+    maxLatencyMs: parseInt(process.env.MODEL_ROUTING_MAX_LATENCY_MS || '30000', 10),
+    maxErrorRate: 0.5,
+    window: 20
+  };
+}
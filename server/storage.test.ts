@@ -0,0 +1,381 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle, type PgliteDatabase } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { sql } from "drizzle-orm";
+import path from "path";
+import * as schema from "@shared/schema";
+import type { AutomationAction } from "@shared/types";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+// One pglite database for the whole file, emptied before each DbStorage test
+let pglite: PGlite | undefined;
+let db: PgliteDatabase<typeof schema> | undefined;
+
+async function createStorage(backend: typeof MemStorage | typeof DbStorage): Promise<IStorage> {
+  if (backend === MemStorage) return new MemStorage();
+  if (!db) {
+    pglite = new PGlite();
+    db = drizzle(pglite, { schema });
+    await migrate(db, { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations") });
+  }
+  await db.execute(sql`truncate users, model_settings, response_cache cascade`);
+  return new DbStorage(db);
+}
+
+afterAll(async () => {
+  await pglite?.close();
+});
+
+// Lets the clock move on, so timestamps taken one after the other differ
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function emailAction(conversationId: string, overrides: Partial<AutomationAction> = {}): AutomationAction {
+  return {
+    id: crypto.randomUUID(),
+    conversationId,
+    type: "email",
+    payload: { to: "team@example.com", subject: "Standup", body: "Moved to 10am" },
+    message: "Send an email to team@example.com",
+    icon: "📧",
+    status: "proposed",
+    dryRun: true,
+    ...overrides,
+  } as AutomationAction;
+}
+
+describe.each([MemStorage, DbStorage].map((backend) => ({ name: backend.name, backend })))("$name", ({ backend }) => {
+  let storage: IStorage;
+  let userId: string;
+
+  beforeEach(async () => {
+    storage = await createStorage(backend);
+    userId = (await storage.createUser({ username: "alice", password: "hash" })).id;
+  });
+
+  describe("users", () => {
+    it("creates users with the user role and changes roles", async () => {
+      const bob = await storage.createUser({ username: "bob", password: "hash" });
+      expect(bob.role).toBe("user");
+      expect(await storage.getUserByUsername("bob")).toMatchObject({ id: bob.id });
+
+      expect(await storage.updateUserRole(bob.id, "admin")).toMatchObject({ role: "admin" });
+      expect((await storage.getUser(bob.id))?.role).toBe("admin");
+      expect(await storage.updateUserRole("missing", "admin")).toBeUndefined();
+      expect((await storage.listUsers()).map((user) => user.username)).toEqual(["alice", "bob"]);
+    });
+  });
+
+  describe("conversations", () => {
+    it("lists a user's conversations pinned first, then most recently active", async () => {
+      const first = await storage.createConversation({ userId, title: "First" });
+      await tick();
+      const second = await storage.createConversation({ userId, title: "Second" });
+      await tick();
+      const third = await storage.createConversation({ userId, title: "Third" });
+      await tick();
+      await storage.appendMessage({ conversationId: first.id, role: "user", content: "Bump" });
+      await storage.updateConversation(second.id, { pinned: true });
+
+      const other = await storage.createUser({ username: "bob", password: "hash" });
+      await storage.createConversation({ userId: other.id, title: "Not Alice's" });
+
+      const listed = await storage.listConversations(userId);
+      expect(listed.map((conversation) => conversation.id)).toEqual([second.id, first.id, third.id]);
+    });
+
+    it("renames conversations and reports missing ones", async () => {
+      const conversation = await storage.createConversation({ userId, title: "Draft" });
+      expect(await storage.updateConversation(conversation.id, { title: "Renamed" })).toMatchObject({ title: "Renamed" });
+      expect((await storage.getConversation(conversation.id))?.title).toBe("Renamed");
+      expect(await storage.updateConversation("missing", { title: "Nope" })).toBeUndefined();
+    });
+
+    it("deletes a conversation with its messages and automations", async () => {
+      const conversation = await storage.createConversation({ userId, title: "Doomed" });
+      await storage.appendMessage({ conversationId: conversation.id, role: "user", content: "Hi" });
+      const action = await storage.createAutomation(emailAction(conversation.id));
+
+      expect(await storage.deleteConversation(conversation.id)).toBe(true);
+      expect(await storage.getConversation(conversation.id)).toBeUndefined();
+      expect(await storage.getMessages(conversation.id)).toEqual([]);
+      expect(await storage.getAutomation(action.id)).toBeUndefined();
+      expect(await storage.deleteConversation(conversation.id)).toBe(false);
+    });
+  });
+
+  describe("messages", () => {
+    it("returns messages in the order they were added and bumps the conversation", async () => {
+      const conversation = await storage.createConversation({ userId, title: "Chat" });
+      await tick();
+      await storage.appendMessage({ conversationId: conversation.id, role: "user", content: "Question" });
+      await tick();
+      const answer = await storage.appendMessage({
+        conversationId: conversation.id,
+        role: "assistant",
+        content: "Answer",
+        model: "gpt",
+      });
+
+      const history = await storage.getMessages(conversation.id);
+      expect(history.map(({ role, content, model }) => ({ role, content, model }))).toEqual([
+        { role: "user", content: "Question", model: null },
+        { role: "assistant", content: "Answer", model: "gpt" },
+      ]);
+      const updated = await storage.getConversation(conversation.id);
+      expect(updated!.updatedAt.getTime()).toBeGreaterThan(conversation.updatedAt.getTime());
+      expect(answer.id).toBeTruthy();
+    });
+
+    it("refuses messages for a missing conversation", async () => {
+      await expect(
+        storage.appendMessage({ conversationId: "missing", role: "user", content: "Hi" }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("search", () => {
+    it("matches titles and message text, ignoring case, with the match's offsets", async () => {
+      const trip = await storage.createConversation({ userId, title: "Holiday plans" });
+      await storage.appendMessage({
+        conversationId: trip.id,
+        role: "user",
+        content: "Please plan a week in Lisbon with museums and a day trip to Sintra",
+      });
+      await storage.appendMessage({ conversationId: trip.id, role: "assistant", content: "Lisbon is lovely in May" });
+      const titled = await storage.createConversation({ userId, title: "Lisbon budget" });
+      await storage.createConversation({ userId, title: "Unrelated" });
+
+      const results = await storage.listConversations(userId, "  LISBON ");
+      expect(results).toHaveLength(2);
+
+      const match = results.find((conversation) => conversation.id === trip.id)!;
+      expect(match.snippet).toBe("Please plan a week in Lisbon with museums and a day trip to Sintra");
+      expect(match.snippetMatch).toEqual({ start: 22, length: 6 });
+      expect(match.snippet!.slice(22, 28)).toBe("Lisbon");
+
+      const byTitle = results.find((conversation) => conversation.id === titled.id)!;
+      expect(byTitle.snippet).toBeUndefined();
+      expect(byTitle.snippetMatch).toBeUndefined();
+    });
+
+    it("cuts long messages to a window around the match", async () => {
+      const conversation = await storage.createConversation({ userId, title: "Long" });
+      const content = `${"a".repeat(100)} needle ${"b".repeat(200)}`;
+      await storage.appendMessage({ conversationId: conversation.id, role: "user", content });
+
+      const [result] = await storage.listConversations(userId, "needle");
+      expect(result.snippet).toBe(content.slice(61, 181));
+      expect(result.snippetMatch).toEqual({ start: 40, length: 6 });
+    });
+
+    it("treats LIKE wildcards as plain text", async () => {
+      await storage.createConversation({ userId, title: "100% done" });
+      await storage.createConversation({ userId, title: "1000 things" });
+
+      expect((await storage.listConversations(userId, "100%")).map((c) => c.title)).toEqual(["100% done"]);
+      expect(await storage.listConversations(userId, "_")).toEqual([]);
+    });
+  });
+
+  describe("automations", () => {
+    it("stores, updates and counts automations", async () => {
+      const conversation = await storage.createConversation({ userId, title: "Tasks" });
+      const proposed = await storage.createAutomation(emailAction(conversation.id));
+      await storage.createAutomation(emailAction(conversation.id, { status: "rejected" }));
+
+      expect(await storage.getAutomation(proposed.id)).toEqual(proposed);
+      const done = await storage.updateAutomation({ ...proposed, status: "succeeded", message: "Sent" });
+      expect(done).toMatchObject({ status: "succeeded", message: "Sent" });
+      expect(await storage.getAutomation(proposed.id)).toEqual(done);
+
+      const counts = await storage.countAutomations(new Date(Date.now() - DAY), new Date(Date.now() + DAY));
+      expect(counts.map(({ type, status, count }) => ({ type, status, count })).sort((a, b) =>
+        a.status.localeCompare(b.status),
+      )).toEqual([
+        { type: "email", status: "rejected", count: 1 },
+        { type: "email", status: "succeeded", count: 1 },
+      ]);
+    });
+
+    it("lists a conversation's automations oldest first, with the answer that proposed them", async () => {
+      const conversation = await storage.createConversation({ userId, title: "Tasks" });
+      const other = await storage.createConversation({ userId, title: "Other" });
+      const answer = await storage.appendMessage({ conversationId: conversation.id, role: "assistant", content: "Done" });
+      const first = await storage.createAutomation(emailAction(conversation.id, { messageId: answer.id }));
+      await tick();
+      const second = await storage.createAutomation(emailAction(conversation.id));
+      await storage.createAutomation(emailAction(other.id));
+
+      expect(await storage.listAutomations(conversation.id)).toEqual([first, second]);
+      expect(first.messageId).toBe(answer.id);
+      expect(second.messageId).toBeUndefined();
+      expect(await storage.listAutomations("missing")).toEqual([]);
+    });
+
+    it("lets only one caller claim a proposed automation", async () => {
+      const conversation = await storage.createConversation({ userId, title: "Tasks" });
+      const action = await storage.createAutomation(emailAction(conversation.id));
+
+      const claims = await Promise.all([
+        storage.claimAutomation(action.id, "pending"),
+        storage.claimAutomation(action.id, "pending"),
+        storage.claimAutomation(action.id, "rejected"),
+      ]);
+      const winners = claims.filter((claim) => claim !== undefined);
+      expect(winners).toHaveLength(1);
+      expect((await storage.getAutomation(action.id))?.status).toBe(winners[0]!.status);
+      expect(await storage.claimAutomation("missing", "pending")).toBeUndefined();
+    });
+
+    it("refuses automations for missing conversations and updates of missing ones", async () => {
+      await expect(storage.createAutomation(emailAction("missing"))).rejects.toThrow();
+      const conversation = await storage.createConversation({ userId, title: "Tasks" });
+      await expect(storage.updateAutomation(emailAction(conversation.id))).rejects.toThrow();
+    });
+  });
+
+  describe("usage", () => {
+    it("adds up daily usage per user and day", async () => {
+      expect(await storage.getDailyUsage(userId, "2026-01-01")).toEqual({
+        userId,
+        day: "2026-01-01",
+        tokens: 0,
+        costUsd: 0,
+      });
+      await storage.addDailyUsage(userId, "2026-01-01", 100, 0.5);
+      const total = await storage.addDailyUsage(userId, "2026-01-01", 50, 0.25);
+      expect(total).toMatchObject({ tokens: 150, costUsd: 0.75 });
+      expect((await storage.getDailyUsage(userId, "2026-01-02")).tokens).toBe(0);
+    });
+
+    it("summarizes successful calls per model and every chat call for metrics", async () => {
+      const conversation = await storage.createConversation({ userId, title: "Usage" });
+      const call = { userId, conversationId: conversation.id, promptTokens: 10, completionTokens: 20, totalTokens: 30 };
+      await storage.createUsageRecord({ ...call, model: "gpt", costUsd: 0.01, latencyMs: 100 });
+      await storage.createUsageRecord({ ...call, model: "gpt", costUsd: 0.02, latencyMs: 300 });
+      await storage.createUsageRecord({ ...call, model: "claude", costUsd: 0.03, latencyMs: 200 });
+      await storage.createUsageRecord({
+        ...call,
+        model: "claude",
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        costUsd: 0,
+        latencyMs: 5000,
+        error: "timeout",
+      });
+      await storage.createUsageRecord({ ...call, model: "gpt", purpose: "intent", costUsd: 0.01, latencyMs: 900 });
+      const from = new Date(Date.now() - DAY);
+      const to = new Date(Date.now() + DAY);
+
+      const usage = await storage.summarizeUsage(userId, from, to);
+      expect(usage.map(({ model, requests, totalTokens }) => ({ model, requests, totalTokens }))).toEqual([
+        { model: "claude", requests: 1, totalTokens: 30 },
+        { model: "gpt", requests: 3, totalTokens: 90 },
+      ]);
+      expect(usage[1].costUsd).toBeCloseTo(0.04);
+
+      const metrics = await storage.summarizeModelCalls(from, to, false);
+      expect(metrics.map(({ day, model, requests, errors, p50LatencyMs, p99LatencyMs }) => ({
+        day,
+        model,
+        requests,
+        errors,
+        p50LatencyMs,
+        p99LatencyMs,
+      }))).toEqual([
+        { day: null, model: "claude", requests: 2, errors: 1, p50LatencyMs: 200, p99LatencyMs: 200 },
+        { day: null, model: "gpt", requests: 2, errors: 0, p50LatencyMs: 100, p99LatencyMs: 300 },
+      ]);
+      // The intent call counts towards spend only
+      expect(metrics[1]).toMatchObject({ totalTokens: 90 });
+      expect(metrics[1].costUsd).toBeCloseTo(0.04);
+      expect(await storage.summarizeUsage(userId, to, new Date(to.getTime() + DAY))).toEqual([]);
+    });
+
+    it("keeps usage when its conversation is deleted", async () => {
+      const conversation = await storage.createConversation({ userId, title: "Gone" });
+      await storage.createUsageRecord({
+        userId,
+        conversationId: conversation.id,
+        model: "gpt",
+        promptTokens: 1,
+        completionTokens: 1,
+        totalTokens: 2,
+        costUsd: 0,
+      });
+      await storage.deleteConversation(conversation.id);
+
+      const usage = await storage.summarizeUsage(userId, new Date(Date.now() - DAY), new Date(Date.now() + DAY));
+      expect(usage.map(({ requests }) => requests)).toEqual([1]);
+    });
+  });
+
+  describe("model settings", () => {
+    const setting = {
+      modelId: "mistralai/mistral-large",
+      label: "Mistral",
+      enabled: true,
+      maxTokens: 100,
+      maxPromptPrice: null,
+      maxCompletionPrice: null,
+      allowedRoles: null,
+      allowedUserIds: null,
+    };
+
+    it("creates, replaces, lists and deletes settings", async () => {
+      await storage.saveModelSetting("mistral", setting);
+      await storage.saveModelSetting("claude", { ...setting, modelId: "anthropic/claude-3.5-sonnet", label: null });
+      const replaced = await storage.saveModelSetting("mistral", {
+        ...setting,
+        enabled: false,
+        allowedRoles: ["admin"],
+      });
+      expect(replaced).toMatchObject({ alias: "mistral", enabled: false, allowedRoles: ["admin"], maxTokens: 100 });
+
+      const listed = await storage.listModelSettings();
+      expect(listed.map(({ alias, enabled }) => ({ alias, enabled }))).toEqual([
+        { alias: "claude", enabled: true },
+        { alias: "mistral", enabled: false },
+      ]);
+
+      expect(await storage.deleteModelSetting("mistral")).toBe(true);
+      expect(await storage.deleteModelSetting("mistral")).toBe(false);
+      expect((await storage.listModelSettings()).map(({ alias }) => alias)).toEqual(["claude"]);
+    });
+  });
+
+  describe("response cache", () => {
+    const entry = (key: string, createdAt: number) => ({
+      key,
+      model: "gpt",
+      content: `Answer ${key}`,
+      createdAt: new Date(createdAt),
+      expiresAt: new Date(createdAt + 1000),
+    });
+
+    it("serves entries until they expire", async () => {
+      await storage.saveCachedResponse(entry("a", 0));
+      expect(await storage.getCachedResponse("a", new Date(500))).toMatchObject({ content: "Answer a" });
+      expect(await storage.getCachedResponse("a", new Date(1000))).toBeUndefined();
+
+      await storage.saveCachedResponse({ ...entry("a", 2000), content: "Replaced" });
+      expect(await storage.getCachedResponse("a", new Date(2500))).toMatchObject({ content: "Replaced" });
+    });
+
+    it("prunes expired entries, then the oldest beyond the limit", async () => {
+      await storage.saveCachedResponse(entry("old", 0));
+      await storage.saveCachedResponse(entry("b", 1500));
+      await storage.saveCachedResponse(entry("c", 1600));
+      await storage.saveCachedResponse(entry("d", 1700));
+
+      expect(await storage.pruneCachedResponses(new Date(1800), 2)).toBe(2);
+      expect(await storage.getCachedResponse("b", new Date(1800))).toBeUndefined();
+      expect(await storage.getCachedResponse("c", new Date(1800))).toBeDefined();
+      expect(await storage.getCachedResponse("d", new Date(1800))).toBeDefined();
+    });
+  });
+});
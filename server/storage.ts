@@ -1,5 +1,47 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  conversations,
+  messages,
+  automations,
+  apiKeys,
+  personas,
+  modelSettings,
+  dailyUsage,
+  responseCache,
+  usageRecords,
+  type Automation,
+  type CachedResponse,
+  type DailyUsage,
+  type InsertUsageRecord,
+  type UsageRecord,
+  type ApiKey,
+  type InsertApiKey,
+  type Persona,
+  type InsertPersona,
+  type UpdatePersona,
+  type ModelSetting,
+  type UpsertModelSetting,
+  type User,
+  type UserRole,
+  type InsertUser,
+  type Conversation,
+  type InsertConversation,
+  type UpdateConversation,
+  type ConversationSummary,
+  type Message,
+  type InsertMessage,
+} from "@shared/schema";
+import {
+  automationIntentSchema,
+  type AutomationAction,
+  type AutomationCount,
+  type AutomationStatus,
+  type ModelCallMetrics,
+  type UsageBreakdown,
+} from "@shared/types";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { createDb, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +50,110 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  // Sorted by username
+  listUsers(): Promise<User[]>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
+
+  getConversation(id: string): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  // Pinned first, then most recently active; `search` matches titles and message text
+  listConversations(userId: string, search?: string): Promise<ConversationSummary[]>;
+  updateConversation(id: string, update: UpdateConversation): Promise<Conversation | undefined>;
+  // Also removes the conversation's messages and automations
+  deleteConversation(id: string): Promise<boolean>;
+  getMessages(conversationId: string): Promise<Message[]>;
+  appendMessage(message: InsertMessage): Promise<Message>;
+
+  createAutomation(action: AutomationAction): Promise<AutomationAction>;
+  getAutomation(id: string): Promise<AutomationAction | undefined>;
+  // Oldest first
+  listAutomations(conversationId: string): Promise<AutomationAction[]>;
+  updateAutomation(action: AutomationAction): Promise<AutomationAction>;
+  // Moves a proposed automation to `status` in one step; undefined when it was
+  // not proposed any more, e.g. because a concurrent request claimed it first
+  claimAutomation(id: string, status: AutomationStatus): Promise<AutomationAction | undefined>;
+
+  // Sorted by name
+  listPersonas(userId: string): Promise<Persona[]>;
+  getPersona(id: string): Promise<Persona | undefined>;
+  createPersona(persona: InsertPersona): Promise<Persona>;
+  updatePersona(id: string, update: UpdatePersona): Promise<Persona | undefined>;
+  deletePersona(id: string): Promise<boolean>;
+
+  // Sorted by alias
+  listModelSettings(): Promise<ModelSetting[]>;
+  // Creates the alias's settings or replaces them wholesale
+  saveModelSetting(alias: string, setting: UpsertModelSetting): Promise<ModelSetting>;
+  deleteModelSetting(alias: string): Promise<boolean>;
+
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  listApiKeys(userId: string): Promise<ApiKey[]>;
+  revokeApiKey(id: string): Promise<ApiKey | undefined>;
+  touchApiKey(id: string): Promise<void>;
+
+  getDailyUsage(userId: string, day: string): Promise<DailyUsage>;
+  addDailyUsage(userId: string, day: string, tokens: number, costUsd: number): Promise<DailyUsage>;
+
+  // Undefined once the entry has expired
+  getCachedResponse(key: string, now: Date): Promise<CachedResponse | undefined>;
+  // Creates the entry or replaces it wholesale
+  saveCachedResponse(entry: CachedResponse): Promise<void>;
+  // Drops expired entries, then the oldest beyond `maxEntries`; returns how many went
+  pruneCachedResponses(now: Date, maxEntries: number): Promise<number>;
+
+  createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord>;
+  // Totals per UTC day and model for successful calls made in [from, to)
+  summarizeUsage(userId: string, from: Date, to: Date): Promise<UsageBreakdown[]>;
+  // Call statistics across all users for [from, to), per model and optionally per day
+  summarizeModelCalls(from: Date, to: Date, byDay: boolean): Promise<ModelCallMetrics[]>;
+  countAutomations(from: Date, to: Date): Promise<AutomationCount[]>;
+}
+
+// Up to 120 characters of a matching message, starting a little before the
+// first case-insensitive match of `term`. Both backends build snippets here so
+// they give the same results.
+function searchSnippet(content: string, term: string): Pick<ConversationSummary, "snippet" | "snippetMatch"> {
+  const index = content.toLowerCase().indexOf(term.toLowerCase());
+  if (index < 0) return {};
+  const start = Math.max(0, index - 40);
+  return {
+    snippet: content.slice(start, start + 120),
+    snippetMatch: { start: index - start, length: term.length },
+  };
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private conversations: Map<string, Conversation>;
+  private messages: Map<string, Message[]>;
+  private automations: Map<string, AutomationAction>;
+  private automationCreatedAt: Map<string, Date>;
+  private apiKeys: Map<string, ApiKey>;
+  private personas: Map<string, Persona>;
+  private modelSettings: Map<string, ModelSetting>;
+  private dailyUsage: Map<string, DailyUsage>;
+  private responseCache: Map<string, CachedResponse>;
+  private usageRecords: UsageRecord[];
 
   constructor() {
     this.users = new Map();
+    this.conversations = new Map();
+    this.messages = new Map();
+    this.automations = new Map();
+    this.automationCreatedAt = new Map();
+    this.apiKeys = new Map();
+    this.personas = new Map();
+    this.modelSettings = new Map();
+    this.dailyUsage = new Map();
+    this.responseCache = new Map();
+    this.usageRecords = [];
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -29,10 +168,811 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: insertUser.role ?? "user" };
     this.users.set(id, user);
     return user;
   }
+
+  async listUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    user.role = role;
+    return { ...user };
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation && { ...conversation };
+  }
+
+  async createConversation(
+    insertConversation: InsertConversation,
+  ): Promise<Conversation> {
+    const id = randomUUID();
+    const now = new Date();
+    const conversation: Conversation = {
+      id,
+      userId: insertConversation.userId,
+      title: insertConversation.title ?? null,
+      pinned: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.conversations.set(id, conversation);
+    this.messages.set(id, []);
+    return { ...conversation };
+  }
+
+  async listConversations(userId: string, search?: string): Promise<ConversationSummary[]> {
+    const term = search?.trim().toLowerCase();
+    const summaries: ConversationSummary[] = [];
+
+    this.conversations.forEach((conversation) => {
+      if (conversation.userId !== userId) return;
+      if (!term) {
+        summaries.push({ ...conversation });
+        return;
+      }
+
+      const match = (this.messages.get(conversation.id) ?? []).find((message) =>
+        message.content.toLowerCase().includes(term),
+      );
+      if (match) {
+        summaries.push({ ...conversation, ...searchSnippet(match.content, term) });
+      } else if (conversation.title?.toLowerCase().includes(term)) {
+        summaries.push({ ...conversation });
+      }
+    });
+
+    return summaries.sort(
+      (a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt.getTime() - a.updatedAt.getTime(),
+    );
+  }
+
+  async updateConversation(
+    id: string,
+    update: UpdateConversation,
+  ): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
+    Object.assign(conversation, update);
+    return { ...conversation };
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    if (!this.conversations.delete(id)) return false;
+    this.messages.delete(id);
+    this.automations.forEach((action, actionId) => {
+      if (action.conversationId === id) {
+        this.automations.delete(actionId);
+        this.automationCreatedAt.delete(actionId);
+      }
+    });
+    for (const record of this.usageRecords) {
+      if (record.conversationId === id) {
+        record.conversationId = null;
+      }
+    }
+    return true;
+  }
+
+  async getMessages(conversationId: string): Promise<Message[]> {
+    return [...(this.messages.get(conversationId) ?? [])];
+  }
+
+  async appendMessage(insertMessage: InsertMessage): Promise<Message> {
+    const conversation = this.conversations.get(insertMessage.conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${insertMessage.conversationId}`);
+    }
+
+    const message: Message = {
+      ...insertMessage,
+      id: randomUUID(),
+      model: insertMessage.model ?? null,
+      createdAt: new Date(),
+    };
+    this.messages.get(conversation.id)!.push(message);
+    conversation.updatedAt = message.createdAt;
+    return message;
+  }
+
+  async createAutomation(action: AutomationAction): Promise<AutomationAction> {
+    if (!this.conversations.has(action.conversationId)) {
+      throw new Error(`Conversation not found: ${action.conversationId}`);
+    }
+    this.automations.set(action.id, action);
+    this.automationCreatedAt.set(action.id, new Date());
+    return action;
+  }
+
+  async getAutomation(id: string): Promise<AutomationAction | undefined> {
+    return this.automations.get(id);
+  }
+
+  async listAutomations(conversationId: string): Promise<AutomationAction[]> {
+    return Array.from(this.automations.values())
+      .filter((action) => action.conversationId === conversationId)
+      .sort((a, b) => this.automationCreatedAt.get(a.id)!.getTime() - this.automationCreatedAt.get(b.id)!.getTime());
+  }
+
+  async updateAutomation(action: AutomationAction): Promise<AutomationAction> {
+    if (!this.automations.has(action.id)) {
+      throw new Error(`Automation not found: ${action.id}`);
+    }
+    this.automations.set(action.id, action);
+    return action;
+  }
+
+  async claimAutomation(id: string, status: AutomationStatus): Promise<AutomationAction | undefined> {
+    const action = this.automations.get(id);
+    if (action?.status !== 'proposed') return undefined;
+    const claimed = { ...action, status };
+    this.automations.set(id, claimed);
+    return claimed;
+  }
+
+  async listPersonas(userId: string): Promise<Persona[]> {
+    return Array.from(this.personas.values())
+      .filter((persona) => persona.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPersona(id: string): Promise<Persona | undefined> {
+    return this.personas.get(id);
+  }
+
+  async createPersona(insertPersona: InsertPersona): Promise<Persona> {
+    const now = new Date();
+    const persona: Persona = {
+      ...insertPersona,
+      id: randomUUID(),
+      defaultModel: insertPersona.defaultModel ?? null,
+      temperature: insertPersona.temperature ?? null,
+      maxTokens: insertPersona.maxTokens ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.personas.set(persona.id, persona);
+    return persona;
+  }
+
+  async updatePersona(id: string, update: UpdatePersona): Promise<Persona | undefined> {
+    const persona = this.personas.get(id);
+    if (!persona) return undefined;
+    Object.assign(persona, update, { updatedAt: new Date() });
+    return { ...persona };
+  }
+
+  async deletePersona(id: string): Promise<boolean> {
+    return this.personas.delete(id);
+  }
+
+  async listModelSettings(): Promise<ModelSetting[]> {
+    return Array.from(this.modelSettings.values()).sort((a, b) => a.alias.localeCompare(b.alias));
+  }
+
+  async saveModelSetting(alias: string, setting: UpsertModelSetting): Promise<ModelSetting> {
+    const saved: ModelSetting = { ...setting, alias, updatedAt: new Date() };
+    this.modelSettings.set(alias, saved);
+    return saved;
+  }
+
+  async deleteModelSetting(alias: string): Promise<boolean> {
+    return this.modelSettings.delete(alias);
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const apiKey: ApiKey = {
+      ...insertApiKey,
+      id: randomUUID(),
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    this.apiKeys.set(apiKey.id, apiKey);
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(
+      (apiKey) => apiKey.keyHash === keyHash,
+    );
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter((apiKey) => apiKey.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async revokeApiKey(id: string): Promise<ApiKey | undefined> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey && !apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+    }
+    return apiKey;
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey) {
+      apiKey.lastUsedAt = new Date();
+    }
+  }
+
+  async getDailyUsage(userId: string, day: string): Promise<DailyUsage> {
+    return { ...(this.dailyUsage.get(`${userId}:${day}`) ?? { userId, day, tokens: 0, costUsd: 0 }) };
+  }
+
+  async addDailyUsage(userId: string, day: string, tokens: number, costUsd: number): Promise<DailyUsage> {
+    const current = await this.getDailyUsage(userId, day);
+    const updated: DailyUsage = {
+      ...current,
+      tokens: current.tokens + tokens,
+      costUsd: current.costUsd + costUsd,
+    };
+    this.dailyUsage.set(`${userId}:${day}`, updated);
+    return { ...updated };
+  }
+
+  async getCachedResponse(key: string, now: Date): Promise<CachedResponse | undefined> {
+    const entry = this.responseCache.get(key);
+    return entry && entry.expiresAt > now ? { ...entry } : undefined;
+  }
+
+  async saveCachedResponse(entry: CachedResponse): Promise<void> {
+    // Re-inserting keeps the map in creation order for pruning
+    this.responseCache.delete(entry.key);
+    this.responseCache.set(entry.key, { ...entry });
+  }
+
+  async pruneCachedResponses(now: Date, maxEntries: number): Promise<number> {
+    const before = this.responseCache.size;
+    this.responseCache.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.responseCache.delete(key);
+      }
+    });
+    Array.from(this.responseCache.keys())
+      .slice(0, Math.max(0, this.responseCache.size - maxEntries))
+      .forEach((key) => this.responseCache.delete(key));
+    return before - this.responseCache.size;
+  }
+
+  async createUsageRecord(insertRecord: InsertUsageRecord): Promise<UsageRecord> {
+    const record: UsageRecord = {
+      ...insertRecord,
+      id: randomUUID(),
+      conversationId: insertRecord.conversationId ?? null,
+      purpose: insertRecord.purpose ?? "chat",
+      latencyMs: insertRecord.latencyMs ?? null,
+      error: insertRecord.error ?? null,
+      createdAt: new Date(),
+    };
+    this.usageRecords.push(record);
+    return record;
+  }
+
+  async summarizeUsage(userId: string, from: Date, to: Date): Promise<UsageBreakdown[]> {
+    const groups = new Map<string, UsageBreakdown>();
+    for (const record of this.usageRecords) {
+      if (record.userId !== userId || record.error || record.createdAt < from || record.createdAt >= to) continue;
+
+      const day = record.createdAt.toISOString().slice(0, 10);
+      const key = `${day}:${record.model}`;
+      const group = groups.get(key) ?? {
+        day,
+        model: record.model,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        costUsd: 0,
+      };
+      group.requests += 1;
+      group.promptTokens += record.promptTokens;
+      group.completionTokens += record.completionTokens;
+      group.totalTokens += record.totalTokens;
+      group.costUsd += record.costUsd;
+      groups.set(key, group);
+    }
+    return Array.from(groups.values()).sort(
+      (a, b) => a.day.localeCompare(b.day) || a.model.localeCompare(b.model),
+    );
+  }
+
+  async summarizeModelCalls(from: Date, to: Date, byDay: boolean): Promise<ModelCallMetrics[]> {
+    const groups = new Map<string, { day: string | null; model: string; records: UsageRecord[] }>();
+    for (const record of this.usageRecords) {
+      if (record.createdAt < from || record.createdAt >= to) continue;
+
+      const day = byDay ? record.createdAt.toISOString().slice(0, 10) : null;
+      const key = `${day}:${record.model}`;
+      const group = groups.get(key) ?? { day, model: record.model, records: [] };
+      group.records.push(record);
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values())
+      .map(({ day, model, records }) => {
+        const calls = records.filter((record) => record.purpose === "chat");
+        const latencies = calls
+          .filter((record) => !record.error && record.latencyMs !== null)
+          .map((record) => record.latencyMs!)
+          .sort((a, b) => a - b);
+        return {
+          day,
+          model,
+          requests: calls.length,
+          errors: calls.filter((record) => record.error).length,
+          totalTokens: records.reduce((sum, record) => sum + record.totalTokens, 0),
+          costUsd: records.reduce((sum, record) => sum + record.costUsd, 0),
+          p50LatencyMs: percentile(latencies, 50),
+          p95LatencyMs: percentile(latencies, 95),
+          p99LatencyMs: percentile(latencies, 99),
+        };
+      })
+      .sort((a, b) => (a.day ?? "").localeCompare(b.day ?? "") || a.model.localeCompare(b.model));
+  }
+
+  async countAutomations(from: Date, to: Date): Promise<AutomationCount[]> {
+    const counts = new Map<string, AutomationCount>();
+    this.automations.forEach((action) => {
+      const createdAt = this.automationCreatedAt.get(action.id);
+      if (!createdAt || createdAt < from || createdAt >= to) return;
+
+      const day = createdAt.toISOString().slice(0, 10);
+      const key = `${day}:${action.type}:${action.status}`;
+      const count = counts.get(key) ?? { day, type: action.type, status: action.status, count: 0 };
+      count.count += 1;
+      counts.set(key, count);
+    });
+    return Array.from(counts.values()).sort((a, b) => a.day.localeCompare(b.day));
+  }
+}
+
+// The payload column is untyped JSON, so it is checked against its type's schema
+function toAutomationAction(row: Automation): AutomationAction {
+  return {
+    id: row.id,
+    conversationId: row.conversationId,
+    ...(row.messageId ? { messageId: row.messageId } : {}),
+    status: row.status,
+    message: row.message,
+    icon: row.icon,
+    dryRun: row.dryRun,
+    ...automationIntentSchema.parse({ type: row.type, payload: row.payload }),
+    ...(row.error ? { error: row.error } : {}),
+  };
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async listUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async createConversation(
+    insertConversation: InsertConversation,
+  ): Promise<Conversation> {
+    const [conversation] = await this.db
+      .insert(conversations)
+      .values(insertConversation)
+      .returning();
+    return conversation;
+  }
+
+  async listConversations(userId: string, search?: string): Promise<ConversationSummary[]> {
+    const order = [desc(conversations.pinned), desc(conversations.updatedAt)];
+    const term = search?.trim();
+    if (!term) {
+      return this.db
+        .select()
+        .from(conversations)
+        .where(eq(conversations.userId, userId))
+        .orderBy(...order);
+    }
+
+    // Plain substring matching, like MemStorage, so both backends find the same conversations
+    const pattern = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+    const matches = ilike(messages.content, pattern);
+    // Built with the query builder: raw SQL in a select list leaves column
+    // names unqualified, and both tables have `id` and `created_at`
+    const firstMatch = sql<string | null>`(${this.db
+      .select({ content: messages.content })
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversations.id), matches))
+      .orderBy(asc(messages.createdAt))
+      .limit(1)})`;
+
+    const rows = await this.db
+      .select({ conversation: conversations, firstMatch })
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.userId, userId),
+          or(
+            ilike(conversations.title, pattern),
+            sql`exists (select 1 from ${messages} where ${messages.conversationId} = ${conversations.id} and ${matches})`,
+          ),
+        ),
+      )
+      .orderBy(...order);
+    return rows.map(({ conversation, firstMatch }) => ({
+      ...conversation,
+      ...(firstMatch ? searchSnippet(firstMatch, term) : {}),
+    }));
+  }
+
+  async updateConversation(
+    id: string,
+    update: UpdateConversation,
+  ): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set(update)
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(conversations)
+      .where(eq(conversations.id, id))
+      .returning({ id: conversations.id });
+    return deleted.length > 0;
+  }
+
+  async getMessages(conversationId: string): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(asc(messages.createdAt));
+  }
+
+  async appendMessage(insertMessage: InsertMessage): Promise<Message> {
+    return this.db.transaction(async (tx) => {
+      const [conversation] = await tx
+        .update(conversations)
+        .set({ updatedAt: new Date() })
+        .where(eq(conversations.id, insertMessage.conversationId))
+        .returning();
+      if (!conversation) {
+        throw new Error(`Conversation not found: ${insertMessage.conversationId}`);
+      }
+
+      const [message] = await tx.insert(messages).values(insertMessage).returning();
+      return message;
+    });
+  }
+
+  async createAutomation(action: AutomationAction): Promise<AutomationAction> {
+    const [row] = await this.db
+      .insert(automations)
+      .values({
+        id: action.id,
+        conversationId: action.conversationId,
+        messageId: action.messageId ?? null,
+        type: action.type,
+        status: action.status,
+        message: action.message,
+        icon: action.icon,
+        dryRun: action.dryRun,
+        payload: action.payload,
+        error: action.error ?? null,
+      })
+      .returning();
+    return toAutomationAction(row);
+  }
+
+  async getAutomation(id: string): Promise<AutomationAction | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(automations)
+      .where(eq(automations.id, id));
+    return row ? toAutomationAction(row) : undefined;
+  }
+
+  async listAutomations(conversationId: string): Promise<AutomationAction[]> {
+    const rows = await this.db
+      .select()
+      .from(automations)
+      .where(eq(automations.conversationId, conversationId))
+      .orderBy(asc(automations.createdAt));
+    return rows.map(toAutomationAction);
+  }
+
+  async updateAutomation(action: AutomationAction): Promise<AutomationAction> {
+    const [row] = await this.db
+      .update(automations)
+      .set({
+        status: action.status,
+        message: action.message,
+        dryRun: action.dryRun,
+        payload: action.payload,
+        error: action.error ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(automations.id, action.id))
+      .returning();
+    if (!row) {
+      throw new Error(`Automation not found: ${action.id}`);
+    }
+    return toAutomationAction(row);
+  }
+
+  async claimAutomation(id: string, status: AutomationStatus): Promise<AutomationAction | undefined> {
+    const [row] = await this.db
+      .update(automations)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(automations.id, id), eq(automations.status, 'proposed')))
+      .returning();
+    return row ? toAutomationAction(row) : undefined;
+  }
+
+  async listPersonas(userId: string): Promise<Persona[]> {
+    return this.db
+      .select()
+      .from(personas)
+      .where(eq(personas.userId, userId))
+      .orderBy(asc(personas.name));
+  }
+
+  async getPersona(id: string): Promise<Persona | undefined> {
+    const [persona] = await this.db.select().from(personas).where(eq(personas.id, id));
+    return persona;
+  }
+
+  async createPersona(insertPersona: InsertPersona): Promise<Persona> {
+    const [persona] = await this.db.insert(personas).values(insertPersona).returning();
+    return persona;
+  }
+
+  async updatePersona(id: string, update: UpdatePersona): Promise<Persona | undefined> {
+    const [persona] = await this.db
+      .update(personas)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(personas.id, id))
+      .returning();
+    return persona;
+  }
+
+  async deletePersona(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(personas)
+      .where(eq(personas.id, id))
+      .returning({ id: personas.id });
+    return deleted.length > 0;
+  }
+
+  async listModelSettings(): Promise<ModelSetting[]> {
+    return this.db.select().from(modelSettings).orderBy(asc(modelSettings.alias));
+  }
+
+  async saveModelSetting(alias: string, setting: UpsertModelSetting): Promise<ModelSetting> {
+    const [saved] = await this.db
+      .insert(modelSettings)
+      .values({ ...setting, alias })
+      .onConflictDoUpdate({
+        target: modelSettings.alias,
+        set: { ...setting, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteModelSetting(alias: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(modelSettings)
+      .where(eq(modelSettings.alias, alias))
+      .returning({ alias: modelSettings.alias });
+    return deleted.length > 0;
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const [apiKey] = await this.db.insert(apiKeys).values(insertApiKey).returning();
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.keyHash, keyHash));
+    return apiKey;
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    return this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async revokeApiKey(id: string): Promise<ApiKey | undefined> {
+    await this.db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)));
+    const [apiKey] = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey;
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await this.db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiKeys.id, id));
+  }
+
+  async getDailyUsage(userId: string, day: string): Promise<DailyUsage> {
+    const [usage] = await this.db
+      .select()
+      .from(dailyUsage)
+      .where(and(eq(dailyUsage.userId, userId), eq(dailyUsage.day, day)));
+    return usage ?? { userId, day, tokens: 0, costUsd: 0 };
+  }
+
+  async addDailyUsage(userId: string, day: string, tokens: number, costUsd: number): Promise<DailyUsage> {
+    const [usage] = await this.db
+      .insert(dailyUsage)
+      .values({ userId, day, tokens, costUsd })
+      .onConflictDoUpdate({
+        target: [dailyUsage.userId, dailyUsage.day],
+        set: {
+          tokens: sql`${dailyUsage.tokens} + ${tokens}`,
+          costUsd: sql`${dailyUsage.costUsd} + ${costUsd}`,
+        },
+      })
+      .returning();
+    return usage;
+  }
+
+  async getCachedResponse(key: string, now: Date): Promise<CachedResponse | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(responseCache)
+      .where(and(eq(responseCache.key, key), gt(responseCache.expiresAt, now)));
+    return entry;
+  }
+
+  async saveCachedResponse(entry: CachedResponse): Promise<void> {
+    const { key, ...answer } = entry;
+    await this.db
+      .insert(responseCache)
+      .values(entry)
+      .onConflictDoUpdate({ target: responseCache.key, set: answer });
+  }
+
+  async pruneCachedResponses(now: Date, maxEntries: number): Promise<number> {
+    const overflow = this.db
+      .select({ key: responseCache.key })
+      .from(responseCache)
+      .orderBy(desc(responseCache.createdAt))
+      .offset(maxEntries);
+    const deleted = await this.db
+      .delete(responseCache)
+      .where(or(lte(responseCache.expiresAt, now), inArray(responseCache.key, overflow)))
+      .returning({ key: responseCache.key });
+    return deleted.length;
+  }
+
+  async createUsageRecord(insertRecord: InsertUsageRecord): Promise<UsageRecord> {
+    const [record] = await this.db.insert(usageRecords).values(insertRecord).returning();
+    return record;
+  }
+
+  async summarizeUsage(userId: string, from: Date, to: Date): Promise<UsageBreakdown[]> {
+    const day = sql<string>`to_char(${usageRecords.createdAt}, 'YYYY-MM-DD')`;
+    const rows = await this.db
+      .select({
+        day,
+        model: usageRecords.model,
+        requests: sql<number>`count(*)::int`,
+        promptTokens: sql<number>`sum(${usageRecords.promptTokens})::int`,
+        completionTokens: sql<number>`sum(${usageRecords.completionTokens})::int`,
+        totalTokens: sql<number>`sum(${usageRecords.totalTokens})::int`,
+        costUsd: sql<number>`sum(${usageRecords.costUsd})::float8`,
+      })
+      .from(usageRecords)
+      .where(
+        and(
+          eq(usageRecords.userId, userId),
+          isNull(usageRecords.error),
+          gte(usageRecords.createdAt, from),
+          lt(usageRecords.createdAt, to),
+        ),
+      )
+      .groupBy(day, usageRecords.model)
+      .orderBy(day, usageRecords.model);
+    return rows;
+  }
+
+  async summarizeModelCalls(from: Date, to: Date, byDay: boolean): Promise<ModelCallMetrics[]> {
+    const day = byDay
+      ? sql<string | null>`to_char(${usageRecords.createdAt}, 'YYYY-MM-DD')`
+      : sql<string | null>`null::text`;
+    const isChat = sql`${usageRecords.purpose} = 'chat'`;
+    // Failed calls have no meaningful latency, so percentiles use successes only
+    const latency = (p: number) =>
+      sql<number | null>`percentile_disc(${p}) within group (order by ${usageRecords.latencyMs}) filter (where ${usageRecords.error} is null and ${isChat})`;
+
+    return this.db
+      .select({
+        day,
+        model: usageRecords.model,
+        requests: sql<number>`(count(*) filter (where ${isChat}))::int`,
+        errors: sql<number>`(count(${usageRecords.error}) filter (where ${isChat}))::int`,
+        totalTokens: sql<number>`sum(${usageRecords.totalTokens})::int`,
+        costUsd: sql<number>`sum(${usageRecords.costUsd})::float8`,
+        p50LatencyMs: latency(0.5),
+        p95LatencyMs: latency(0.95),
+        p99LatencyMs: latency(0.99),
+      })
+      .from(usageRecords)
+      .where(and(gte(usageRecords.createdAt, from), lt(usageRecords.createdAt, to)))
+      .groupBy(day, usageRecords.model)
+      .orderBy(day, usageRecords.model);
+  }
+
+  async countAutomations(from: Date, to: Date): Promise<AutomationCount[]> {
+    const day = sql<string>`to_char(${automations.createdAt}, 'YYYY-MM-DD')`;
+    const rows = await this.db
+      .select({
+        day,
+        type: automations.type,
+        status: automations.status,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(automations)
+      .where(and(gte(automations.createdAt, from), lt(automations.createdAt, to)))
+      .groupBy(day, automations.type, automations.status)
+      .orderBy(day);
+    return rows;
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when DATABASE_URL is set, otherwise an in-memory store for development
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -67,8 +67,9 @@ export async function setupVite(app: Express, server: Server) {
   });
 }
 
+// Serves only the client build, which sits next to the server bundle in dist/public
 export function serveStatic(app: Express) {
-  const distPath = path.resolve(import.meta.dirname, "..", "dist");
+  const distPath = path.resolve(import.meta.dirname, "public");
 
   if (!fs.existsSync(distPath)) {
     throw new Error(
@@ -1,18 +1,311 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, jsonb, integer, doublePrecision, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { AutomationStatus, AutomationType } from "./types";
+
+export const USER_ROLES = ["user", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// What a model call was for: answering the user, or extracting automation intents
+export const USAGE_PURPOSES = ["chat", "intent"] as const;
+export type UsagePurpose = (typeof USAGE_PURPOSES)[number];
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
+  // scrypt hash and salt, never the plaintext password
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("user"),
+});
+
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  title: text("title"),
+  pinned: boolean("pinned").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const messages = pgTable("messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  role: text("role").notNull(),
+  content: text("content").notNull(),
+  model: text("model"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const automations = pgTable("automations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  // The assistant answer that proposed it; null for rows stored before the link
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "cascade" }),
+  type: text("type").$type<AutomationType>().notNull(),
+  status: text("status").$type<AutomationStatus>().notNull(),
+  message: text("message").notNull(),
+  icon: text("icon").notNull(),
+  dryRun: boolean("dry_run").notNull(),
+  payload: jsonb("payload").notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// A reusable system prompt with generation defaults, owned by one user
+export const personas = pgTable("personas", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  systemPrompt: text("system_prompt").notNull(),
+  // Null fields fall back to the model picked in the UI and the provider defaults
+  defaultModel: text("default_model"),
+  temperature: doublePrecision("temperature"),
+  maxTokens: integer("max_tokens"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const API_KEY_SCOPES = ["chat", "automations", "admin"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // First characters of the key, shown in the UI so keys can be told apart
+  prefix: text("prefix").notNull(),
+  // SHA-256 of the full key; the plaintext is only returned once, on creation
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes").array().$type<ApiKeyScope[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Admin overrides for one model alias, layered over the server's default aliases
+export const modelSettings = pgTable("model_settings", {
+  alias: text("alias").primaryKey(),
+  // The provider's model id the alias calls, e.g. openai/gpt-4o
+  modelId: text("model_id").notNull(),
+  label: text("label"),
+  enabled: boolean("enabled").notNull().default(true),
+  // Ceiling on max_tokens, applied even when the request sets none
+  maxTokens: integer("max_tokens"),
+  // USD per million tokens; the model is withheld while its list price is higher
+  maxPromptPrice: doublePrecision("max_prompt_price"),
+  maxCompletionPrice: doublePrecision("max_completion_price"),
+  // Both null: everyone may use the model; otherwise only these roles and users
+  allowedRoles: text("allowed_roles").array().$type<UserRole[]>(),
+  allowedUserIds: text("allowed_user_ids").array(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// One row per model call, for cost reporting and the metrics dashboard
+export const usageRecords = pgTable("usage_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  conversationId: varchar("conversation_id").references(() => conversations.id, {
+    onDelete: "set null",
+  }),
+  model: text("model").notNull(),
+  // Intent calls count towards usage and spend but not towards per-model metrics
+  purpose: text("purpose").$type<UsagePurpose>().notNull().default("chat"),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  totalTokens: integer("total_tokens").notNull(),
+  costUsd: doublePrecision("cost_usd").notNull(),
+  // Null when the call was not timed
+  latencyMs: integer("latency_ms"),
+  // Set when the call failed; failed calls carry zero tokens
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Answers kept by the storage-backed response cache, keyed by a hash of the
+// prompt, model, sampling settings and system prompt
+export const responseCache = pgTable("response_cache", {
+  key: text("key").primaryKey(),
+  // The alias that answered, which may differ from the one requested
+  model: text("model").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Running totals behind the daily per-user quotas; `day` is a UTC date (YYYY-MM-DD)
+export const dailyUsage = pgTable(
+  "daily_usage",
+  {
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    day: text("day").notNull(),
+    tokens: integer("tokens").notNull().default(0),
+    costUsd: doublePrecision("cost_usd").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.day] })],
+);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
-export type InsertUser = z.infer<typeof insertUserSchema>;
+// Credentials accepted by /api/auth/register
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3).max(50),
+  password: z.string().min(8).max(200),
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).pick({
+  userId: true,
+  title: true,
+});
+
+export const insertMessageSchema = createInsertSchema(messages).pick({
+  conversationId: true,
+  role: true,
+  content: true,
+  model: true,
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+}).pick({
+  userId: true,
+  name: true,
+  prefix: true,
+  keyHash: true,
+  scopes: true,
+});
+
+export const insertUsageRecordSchema = createInsertSchema(usageRecords, {
+  purpose: z.enum(USAGE_PURPOSES).optional(),
+}).pick({
+  userId: true,
+  conversationId: true,
+  model: true,
+  purpose: true,
+  promptTokens: true,
+  completionTokens: true,
+  totalTokens: true,
+  costUsd: true,
+  latencyMs: true,
+  error: true,
+});
+
+export const insertPersonaSchema = createInsertSchema(personas).pick({
+  userId: true,
+  name: true,
+  systemPrompt: true,
+  defaultModel: true,
+  temperature: true,
+  maxTokens: true,
+});
+
+const personaFields = {
+  name: z.string().trim().min(1).max(100),
+  systemPrompt: z.string().trim().min(1).max(20000),
+  // 'auto' or a catalog alias, checked by the route; compare and fusion are per-request modes
+  defaultModel: z.string().trim().min(1).max(100).nullable(),
+  temperature: z.number().min(0).max(2).nullable(),
+  maxTokens: z.number().int().min(1).max(200000).nullable(),
+};
+
+// Body accepted by POST /api/personas
+export const createPersonaSchema = z.object({
+  ...personaFields,
+  defaultModel: personaFields.defaultModel.default(null),
+  temperature: personaFields.temperature.default(null),
+  maxTokens: personaFields.maxTokens.default(null),
+});
+
+// Body accepted by PATCH /api/personas/:id
+export const updatePersonaSchema = z
+  .object(personaFields)
+  .partial()
+  .refine((update) => Object.keys(update).length > 0, "Nothing to update");
+
+// Body accepted by PATCH /api/conversations/:id
+export const updateConversationSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    pinned: z.boolean(),
+  })
+  .partial()
+  .refine((update) => Object.keys(update).length > 0, "Nothing to update");
+
+// Aliases name models in requests and URLs; these are taken by request modes
+export const RESERVED_MODEL_ALIASES = ["auto", "compare", "fusion", "none"];
+
+export const modelAliasSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9._-]{0,39}$/, "Aliases are up to 40 lowercase letters, digits, dots, dashes or underscores")
+  .refine((alias) => !RESERVED_MODEL_ALIASES.includes(alias), "That alias is reserved");
+
+// Body accepted by PUT /api/admin/models/:alias; the alias comes from the path
+export const upsertModelSettingSchema = z.object({
+  modelId: z.string().trim().min(1).max(200),
+  label: z.string().trim().min(1).max(50).nullable().default(null),
+  enabled: z.boolean().default(true),
+  maxTokens: z.number().int().min(1).max(1000000).nullable().default(null),
+  maxPromptPrice: z.number().min(0).nullable().default(null),
+  maxCompletionPrice: z.number().min(0).nullable().default(null),
+  allowedRoles: z.array(z.enum(USER_ROLES)).min(1).nullable().default(null),
+  allowedUserIds: z.array(z.string().min(1)).min(1).nullable().default(null),
+});
+
+// Body accepted by PATCH /api/admin/users/:id
+export const updateUserRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+// Body accepted by POST /api/keys
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+});
+
+// The role is set by the server, never taken from the registration form
+export type InsertUser = z.infer<typeof insertUserSchema> & { role?: UserRole };
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+export type UpdateConversation = z.infer<typeof updateConversationSchema>;
+// A conversation in the sidebar list; when searching, `snippet` is the text
+// around the first matching message and `snippetMatch` where the term sits in it
+export type ConversationSummary = Conversation & {
+  snippet?: string;
+  snippetMatch?: { start: number; length: number };
+};
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type Message = typeof messages.$inferSelect;
+export type Automation = typeof automations.$inferSelect;
+export type Persona = typeof personas.$inferSelect;
+export type InsertPersona = z.infer<typeof insertPersonaSchema>;
+export type CreatePersona = z.infer<typeof createPersonaSchema>;
+export type UpdatePersona = z.infer<typeof updatePersonaSchema>;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+export type ModelSetting = typeof modelSettings.$inferSelect;
+export type UpsertModelSetting = z.infer<typeof upsertModelSettingSchema>;
+export type DailyUsage = typeof dailyUsage.$inferSelect;
+export type CachedResponse = typeof responseCache.$inferSelect;
+export type InsertUsageRecord = z.infer<typeof insertUsageRecordSchema>;
+export type UsageRecord = typeof usageRecords.$inferSelect;
@@ -1,3 +1,6 @@
+import { z } from "zod";
+import type { ModelSetting } from "./schema";
+
 export interface ChatMessage {
   id: string;
   model: string;
@@ -6,20 +9,299 @@ export interface ChatMessage {
   automations: AutomationAction[];
 }
 
-export interface AutomationAction {
-  type: 'email' | 'task' | 'slack';
+export type MessageRole = 'system' | 'user' | 'assistant';
+
+export interface ChatTurn {
+  role: MessageRole;
+  content: string;
+}
+
+export type AutomationType = 'email' | 'task' | 'slack';
+
+// Actions start as 'proposed' and only run once a person confirms them
+export type AutomationStatus = 'proposed' | 'pending' | 'succeeded' | 'failed' | 'rejected';
+
+export const emailPayloadSchema = z.object({
+  to: z.string().email(),
+  subject: z.string().min(1),
+  body: z.string().min(1),
+});
+
+export const taskPayloadSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(''),
+});
+
+export const slackPayloadSchema = z.object({
+  channel: z.string().min(1).optional(),
+  text: z.string().min(1),
+});
+
+export type EmailPayload = z.infer<typeof emailPayloadSchema>;
+export type TaskPayload = z.infer<typeof taskPayloadSchema>;
+export type SlackPayload = z.infer<typeof slackPayloadSchema>;
+
+export interface AutomationPayloads {
+  email: EmailPayload;
+  task: TaskPayload;
+  slack: SlackPayload;
+}
+
+// A typed request to run an automation, as extracted from the user's message
+export const automationIntentSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('email'), payload: emailPayloadSchema }),
+  z.object({ type: z.literal('task'), payload: taskPayloadSchema }),
+  z.object({ type: z.literal('slack'), payload: slackPayloadSchema }),
+]);
+
+export type AutomationIntent = z.infer<typeof automationIntentSchema>;
+
+interface AutomationActionBase {
+  id: string;
+  conversationId: string;
+  // The assistant message that proposed the action
+  messageId?: string;
   message: string;
   icon: string;
+  status: AutomationStatus;
+  dryRun: boolean;
+  error?: string;
 }
 
-export interface ChatRequest {
-  message: string;
-  model: 'auto' | 'gpt' | 'claude' | 'llama';
+export type AutomationAction = {
+  [K in AutomationType]: AutomationActionBase & { type: K; payload: AutomationPayloads[K] };
+}[AutomationType];
+
+export type RequestCategory = 'code' | 'long-context' | 'creative' | 'small-talk' | 'general';
+
+// Why `auto` picked the model it did
+export interface RoutingDecision {
+  model: string;
+  category: RequestCategory;
+  reason: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // USD: what OpenRouter charged, or an estimate from list prices
+  costUsd?: number;
 }
 
+// A model that failed before another answered, e.g. GPT timing out before
+// Claude replied
+export interface FailoverAttempt {
+  model: string;
+  error: string;
+  latencyMs: number;
+}
+
+// One model's answer in compare mode
+export interface ModelAnswer {
+  model: string;
+  content: string;
+  latencyMs: number;
+  usage?: TokenUsage;
+  error?: string;
+}
+
+// Fusion mode: per-model drafts merged into one answer by a synthesizer model
+export interface FusionResult {
+  drafts: ModelAnswer[];
+  synthesizer: string;
+  // Models the fused answer cites with [model] markers
+  citedModels: string[];
+  // Tokens and time spent by the synthesizer call alone
+  synthesisUsage?: TokenUsage;
+  synthesisLatencyMs?: number;
+}
+
+// Sampling settings a caller may set per request; anything left out uses the
+// persona's setting, then the provider default. Limits are clamped per model.
+export const generationParamsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  topP: z.number().gt(0).max(1).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  // Up to four sequences that end the answer early
+  stop: z.array(z.string().min(1)).min(1).max(4).optional(),
+  // Best-effort determinism; not every provider honours it
+  seed: z.number().int().optional(),
+  // 'json' asks the model for a single JSON object
+  responseFormat: z.enum(['text', 'json']).optional(),
+});
+
+export type GenerationParams = z.infer<typeof generationParamsSchema>;
+
+export const chatRequestSchema = generationParamsSchema.extend({
+  message: z.string().refine((message) => message.trim().length > 0, 'Message is required'),
+  // 'auto' or an alias from GET /api/models; may be left out when the
+  // persona has a default model
+  model: z.string().optional(),
+  conversationId: z.string().optional(),
+  // Compare mode: ask all of these models at once instead of `model`
+  models: z.array(z.string()).optional(),
+  // Fusion mode: draft with `models` (or all models) and merge into one answer
+  fusion: z.boolean().optional(),
+  // Saved persona whose system prompt, model and sampling defaults apply
+  personaId: z.string().optional(),
+  // Ask the model even when the response cache has an answer; the new answer
+  // replaces the cached one
+  bypassCache: z.boolean().optional(),
+});
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+
 export interface ChatResponse {
   id: string;
+  conversationId: string;
   content: string;
   model: string;
   automations: AutomationAction[];
+  routing?: RoutingDecision;
+  usage?: TokenUsage;
+  comparisons?: ModelAnswer[];
+  fusion?: FusionResult;
+  // Set when `model` answered only after the models listed here failed; for
+  // fusion, the synthesizers that failed before `fusion.synthesizer` merged the drafts
+  failover?: FailoverAttempt[];
+  // Served from the response cache: no model was called, so there is no usage
+  cached?: boolean;
+}
+
+export interface ModelPricing {
+  // USD per million tokens
+  prompt: number;
+  completion: number;
+}
+
+// One model the app offers, as listed by GET /api/models
+export interface CatalogModel {
+  // What ChatRequest.model takes, e.g. 'gpt'
+  alias: string;
+  // The provider's model id, e.g. 'openai/gpt-4o'
+  id: string;
+  // Short name for the model picker
+  label: string;
+  // The provider's full name for the model
+  name: string;
+  // Null where the catalog does not say
+  contextLength: number | null;
+  maxOutputTokens: number | null;
+  pricing: ModelPricing | null;
+}
+
+export interface ModelCatalogResponse {
+  // 'openrouter' when the list came from OpenRouter's /models, 'file' for the local catalog
+  source: 'openrouter' | 'file';
+  updatedAt: string;
+  models: CatalogModel[];
+}
+
+// Why a configured model is or is not offered to users
+export type ModelStatus = 'available' | 'disabled' | 'over-price' | 'unlisted';
+
+// A configured alias as the admin page sees it, including ones users are not offered
+export interface AdminModel extends CatalogModel {
+  status: ModelStatus;
+  // Null while the alias runs on the server defaults
+  setting: ModelSetting | null;
+}
+
+// GET /api/admin/models
+export interface AdminModelsResponse {
+  models: AdminModel[];
+  // Everything the provider lists, for pointing an alias at another model
+  providerModels: Array<{ id: string; name: string }>;
+}
+
+// closed: calls flow; open: calls are refused after repeated failures;
+// half-open: the cooldown has passed and a single probe call decides, while
+// other calls are still refused
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// One model's recent track record, as reported by /api/health
+export interface ModelHealth {
+  model: string;
+  status: 'online' | 'degraded' | 'offline';
+  circuit: CircuitState;
+  // Over the recent calls; null before the first call
+  successRate: number | null;
+  averageLatencyMs: number | null;
+  samples: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  // When an open circuit will let the next call through
+  retryAt?: string;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'error';
+  timestamp: string;
+  environment: string;
+  vercel: 'yes' | 'no';
+  provider: string;
+  openRouterAvailable: boolean;
+  models: ModelHealth[];
+  uptime: number;
+}
+
+// A user's spend today against the daily quotas; a null limit means unlimited
+export interface QuotaStatus {
+  day: string;
+  tokensUsed: number;
+  tokenLimit: number | null;
+  costUsd: number;
+  costLimitUsd: number | null;
+  resetsAt: string;
+}
+
+// Spend for one model on one UTC day
+export interface UsageBreakdown {
+  day: string;
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// GET /api/usage: the caller's spend between two UTC days, inclusive
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: Omit<UsageBreakdown, 'day' | 'model'>;
+  byDay: UsageBreakdown[];
+}
+
+// Call statistics for one model, over one UTC day or (day null) the whole range.
+// Requests, errors and latency cover chat calls; tokens and cost include intent extraction.
+export interface ModelCallMetrics {
+  day: string | null;
+  model: string;
+  requests: number;
+  errors: number;
+  totalTokens: number;
+  costUsd: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  p99LatencyMs: number | null;
+}
+
+export interface AutomationCount {
+  day: string;
+  type: AutomationType;
+  status: AutomationStatus;
+  count: number;
+}
+
+// GET /api/metrics: usage across all users, for deciding which models to keep
+export interface MetricsReport {
+  from: string;
+  to: string;
+  models: ModelCallMetrics[];
+  daily: ModelCallMetrics[];
+  automations: AutomationCount[];
 }